@@ -1,8 +1,14 @@
 
-import React, { useState, useCallback } from 'react';
-import { Project, ActivityLog, SystemConfig } from './types';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Project, ActivityLog, SystemConfig, ProviderKind, CassetteMode, ResearchGrounding, ModelPrice } from './types';
 import Sidebar from './components/Sidebar';
 import ProjectView from './components/ProjectView';
+import { storage } from './services/storageService';
+import { DEFAULT_HISTORY_TOKEN_BUDGET } from './services/conversationService';
+import { cassetteStore, parseCassette } from './services/cassetteService';
+import { DEFAULT_MODEL_PRICES, usageStore } from './services/usageService';
+import { clampSetting, mergeImportedConfig, SETTING_LIMITS } from './services/configService';
+import { WorkspaceImport, importJson, importSourceEntries, importZip, readDirectoryHandle, readFileList, restoreWorkspace } from './services/workspaceArchiveService';
 
 const PRESET_MODELS = [
   { value: 'gemini-3-pro-preview', label: 'Gemini 3 Pro (Ultimate Reasoning)' },
@@ -10,19 +16,65 @@ const PRESET_MODELS = [
   { value: 'gemini-flash-lite-latest', label: 'Gemini Flash Lite (Near Instant)' },
 ];
 
+const PROVIDERS: { value: ProviderKind; label: string }[] = [
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'openai-compatible', label: 'Local / OpenAI-compatible' }
+];
+
+const GROUNDING_MODES: { value: ResearchGrounding; label: string }[] = [
+  { value: 'web', label: 'Web' },
+  { value: 'local', label: 'Local Docs' },
+  { value: 'both', label: 'Both' }
+];
+
+const CASSETTE_MODES: { value: CassetteMode; label: string }[] = [
+  { value: 'live', label: 'Live' },
+  { value: 'record', label: 'Record' },
+  { value: 'replay', label: 'Replay' }
+];
+
 const App: React.FC = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [activity, setActivity] = useState<ActivityLog[]>([]);
   const [showSettings, setShowSettings] = useState(false);
+  const [isHydrated, setIsHydrated] = useState(false);
   
   const [systemConfig, setSystemConfig] = useState<SystemConfig>({
     conductorModel: 'gemini-3-pro-preview',
     researchModel: 'gemini-3-flash-preview',
     coderModel: 'gemini-3-pro-preview',
     validatorModel: 'gemini-3-pro-preview',
-    searchEngineId: ''
+    researchGrounding: 'web',
+    historyTokenBudgets: {
+      'gemini-3-pro-preview': 64000,
+      'gemini-3-flash-preview': 48000,
+      'gemini-flash-lite-latest': 16000
+    },
+    autoRepair: false,
+    maxRepairIterations: 2,
+    engineProviders: {
+      conductor: 'gemini',
+      research: 'gemini',
+      coder: 'gemini',
+      validator: 'gemini'
+    },
+    localEndpoint: {
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: ''
+    },
+    cassetteMode: 'live',
+    agentTimeouts: {
+      conductor: 180,
+      research: 120,
+      coder: 300,
+      validator: 180
+    },
+    maxRetries: 3,
+    modelPrices: DEFAULT_MODEL_PRICES,
+    spendLimits: { soft: 0, hard: 0 }
   });
+  const [cassetteSize, setCassetteSize] = useState(0);
 
   const [isCustom, setIsCustom] = useState({
     conductor: false,
@@ -33,6 +85,54 @@ const App: React.FC = () => {
 
   const activeProject = projects.find(p => p.id === activeProjectId) || null;
 
+  // Restore persisted workspaces before enabling write-back, so an empty initial state never overwrites storage
+  useEffect(() => {
+    storage.loadWorkspace()
+      .then(snapshot => {
+        setProjects(snapshot.projects);
+        setActivity(snapshot.activity);
+        if (snapshot.config) setSystemConfig(prev => ({ ...prev, ...snapshot.config }));
+        const firstActive = snapshot.projects.find(p => !p.archived);
+        if (firstActive) setActiveProjectId(firstActive.id);
+      })
+      .catch((error: any) => {
+        setActivity(prev => [...prev, {
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'System',
+          message: `Persistent storage unavailable, running in-memory only: ${error.message}`,
+          type: 'warning'
+        }]);
+      })
+      .finally(() => setIsHydrated(true));
+
+    storage.loadCassette()
+      .then(cassette => {
+        if (!cassette) return;
+        cassetteStore.load(cassette, false);
+      })
+      .catch(e => console.warn('Failed to restore cassette', e));
+
+    storage.loadUsage()
+      .then(records => usageStore.load(records))
+      .catch(e => console.warn('Failed to restore usage', e));
+  }, []);
+
+  // Recordings land in the cassette store from service calls, outside React state
+  useEffect(() => cassetteStore.subscribe(setCassetteSize), []);
+
+  useEffect(() => {
+    if (isHydrated) storage.saveProjects(projects).catch(e => console.warn('Failed to persist projects', e));
+  }, [projects, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) storage.saveActivity(activity).catch(e => console.warn('Failed to persist activity', e));
+  }, [activity, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) storage.saveConfig(systemConfig).catch(e => console.warn('Failed to persist config', e));
+  }, [systemConfig, isHydrated]);
+
   const handleNewProject = useCallback(() => {
     const name = prompt("Designate project identifier:");
     if (!name) return;
@@ -64,6 +164,138 @@ const App: React.FC = () => {
     setActivity(prev => [...prev, log]);
   }, []);
 
+  const addModelPrice = () => {
+    const model = prompt("Model id to price (as configured for an engine):")?.trim();
+    if (!model || systemConfig.modelPrices[model]) return;
+    setSystemConfig({ ...systemConfig, modelPrices: { ...systemConfig.modelPrices, [model]: { input: 0, cachedInput: 0, output: 0 } } });
+  };
+
+  const downloadCassette = () => {
+    const blob = new Blob([JSON.stringify(cassetteStore.current, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trinity-cassette-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadCassetteFile = async (file: File) => {
+    try {
+      const cassette = parseCassette(await file.text());
+      cassetteStore.load(cassette);
+      addLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: `Loaded cassette ${file.name} with ${cassette.entries.length} recorded call(s).`,
+        type: 'success'
+      });
+    } catch (error: any) {
+      addLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: `Cassette rejected: ${error.message}`,
+        type: 'error'
+      });
+    }
+  };
+
+
+  const handleArchiveProject = useCallback((id: string, archived: boolean) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, archived } : p));
+    if (archived) setActiveProjectId(prev => prev === id ? null : prev);
+  }, []);
+
+  const handleDeleteProject = useCallback((id: string) => {
+    const target = projects.find(p => p.id === id);
+    if (!target || !confirm(`Permanently delete workspace ${target.name} and its chat history?`)) return;
+
+    setProjects(prev => prev.filter(p => p.id !== id));
+    setActiveProjectId(prev => prev === id ? null : prev);
+    usageStore.removeProject(id);
+    addLog({
+      id: Math.random().toString(),
+      timestamp: Date.now(),
+      agent: 'System',
+      message: `Project workspace deleted: ${target.name}`,
+      type: 'warning'
+    });
+  }, [projects, addLog]);
+
+  const runImport = async (load: () => Promise<WorkspaceImport>) => {
+    try {
+      const { bundle, skipped } = await load();
+      const project = await restoreWorkspace(bundle);
+      setProjects(prev => [...prev, project]);
+      setActiveProjectId(project.id);
+      addLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: `Imported workspace ${project.name}: ${project.files.length} file(s)${bundle.thread ? ', chat history' : ''}${bundle.research.length ? `, ${bundle.research.length} research entr${bundle.research.length === 1 ? 'y' : 'ies'}` : ''}.`,
+        type: 'success'
+      });
+      if (skipped.length > 0) {
+        addLog({
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'System',
+          message: `Skipped ${skipped.length} unsafe, binary, oversized or generated file(s): ${skipped.slice(0, 5).join(', ')}${skipped.length > 5 ? ', ...' : ''}`,
+          type: 'warning'
+        });
+      }
+      if (bundle.config && confirm('Also apply the engine configuration saved with this workspace?')) {
+        setSystemConfig(prev => mergeImportedConfig(prev, bundle.config));
+      }
+    } catch (error: any) {
+      addLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: `Import failed: ${error.message}`,
+        type: 'error'
+      });
+    }
+  };
+
+  const handleImportArchive = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.zip,.json';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      runImport(async () => file.name.toLowerCase().endsWith('.json')
+        ? importJson(await file.text())
+        : importZip(await file.arrayBuffer(), file.name));
+    };
+    input.click();
+  };
+
+  // File System Access where supported, otherwise a directory upload
+  const handleImportFolder = async () => {
+    if ('showDirectoryPicker' in window) {
+      let dir: FileSystemDirectoryHandle;
+      try {
+        dir = await (window as any).showDirectoryPicker();
+      } catch {
+        return;
+      }
+      runImport(async () => importSourceEntries(await readDirectoryHandle(dir), dir.name));
+      return;
+    }
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.webkitdirectory = true;
+    input.onchange = () => {
+      const files = input.files;
+      if (files?.length) runImport(async () => importSourceEntries(await readFileList(files), 'imported'));
+    };
+    input.click();
+  };
+
   const renderModelSelect = (
     label: string, 
     value: string, 
@@ -71,12 +303,29 @@ const App: React.FC = () => {
     engineKey: keyof typeof isCustom,
     description: string
   ) => {
+    const provider = systemConfig.engineProviders[engineKey];
     return (
       <div className="space-y-3">
         <label className="block">
-          <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em] block mb-3">{label}</span>
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em]">{label}</span>
+            <div className="flex items-center bg-slate-800/40 rounded-lg p-0.5 border border-slate-700/50">
+              {PROVIDERS.map(p => (
+                <button
+                  key={p.value}
+                  type="button"
+                  onClick={() => setSystemConfig({ ...systemConfig, engineProviders: { ...systemConfig.engineProviders, [engineKey]: p.value } })}
+                  className={`px-3 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${
+                    provider === p.value ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="flex gap-3">
-            {!isCustom[engineKey] ? (
+            {provider === 'gemini' && !isCustom[engineKey] ? (
               <select 
                 value={value}
                 onChange={(e) => {
@@ -96,16 +345,18 @@ const App: React.FC = () => {
                   type="text"
                   value={value}
                   onChange={(e) => onChange(e.target.value)}
-                  placeholder="custom-model-id-v1"
+                  placeholder={provider === 'gemini' ? 'custom-model-id-v1' : 'local model name, e.g. qwen2.5-coder:14b'}
                   className="flex-1 bg-slate-950 border border-indigo-500/40 rounded-xl px-4 py-3 text-sm text-slate-100 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all"
                   autoFocus
                 />
-                <button 
-                  onClick={() => setIsCustom(prev => ({ ...prev, [engineKey]: false }))}
-                  className="px-4 bg-slate-800 hover:bg-slate-700 rounded-xl text-slate-400 border border-slate-700 transition-all"
-                >
-                  <i className="fas fa-times"></i>
-                </button>
+                {provider === 'gemini' && (
+                  <button 
+                    onClick={() => setIsCustom(prev => ({ ...prev, [engineKey]: false }))}
+                    className="px-4 bg-slate-800 hover:bg-slate-700 rounded-xl text-slate-400 border border-slate-700 transition-all"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -122,12 +373,17 @@ const App: React.FC = () => {
         activeProjectId={activeProjectId}
         onSelectProject={setActiveProjectId}
         onNewProject={handleNewProject}
+        onImportArchive={handleImportArchive}
+        onImportFolder={handleImportFolder}
+        onArchiveProject={handleArchiveProject}
+        onDeleteProject={handleDeleteProject}
         onOpenSettings={() => setShowSettings(true)}
         activity={activity}
       />
       
       {activeProject ? (
         <ProjectView 
+          key={activeProject.id}
           project={activeProject} 
           onUpdateProject={updateProject}
           onAddLog={addLog}
@@ -235,22 +491,247 @@ const App: React.FC = () => {
                   "Logical validation node used for proof-checking all code artifacts."
                 )}
 
-                <label className="block bg-black/30 p-8 rounded-[2rem] border border-slate-800 group hover:border-slate-700 transition-all">
-                  <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em] block mb-4">Grounding Engine ID</span>
-                  <div className="relative">
-                    <input 
-                      type="text"
-                      value={systemConfig.searchEngineId}
-                      onChange={(e) => setSystemConfig({...systemConfig, searchEngineId: e.target.value})}
-                      placeholder="Custom CX Engine Key (Optional)"
-                      className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-sm text-slate-200 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all placeholder-slate-700"
-                    />
-                    <div className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-700 pointer-events-none">
-                      <i className="fas fa-fingerprint"></i>
+                <div className="bg-black/30 p-8 rounded-[2rem] border border-slate-800 group hover:border-slate-700 transition-all">
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em]">Research Grounding</span>
+                    <div className="flex items-center bg-slate-800/40 rounded-lg p-0.5 border border-slate-700/50">
+                      {GROUNDING_MODES.map(g => (
+                        <button
+                          key={g.value}
+                          onClick={() => setSystemConfig({ ...systemConfig, researchGrounding: g.value })}
+                          className={`px-3 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${
+                            systemConfig.researchGrounding === g.value ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'
+                          }`}
+                        >
+                          {g.label}
+                        </button>
+                      ))}
                     </div>
                   </div>
-                  <p className="mt-4 text-[10px] text-slate-600 font-medium leading-relaxed">Overrides default system grounding if specific indices are required for your domain.</p>
-                </label>
+                  <p className="text-[10px] text-slate-600 font-medium leading-relaxed">Local grounding retrieves passages from documentation imported in each project's research tab and cites them as sources; it also works with engines that have no web search.</p>
+                </div>
+              </div>
+
+              <div className="bg-black/30 p-8 rounded-[2rem] border border-slate-800 space-y-4">
+                <div className="flex items-start justify-between gap-6">
+                  <div>
+                    <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em] block">Record / Replay Fixtures</span>
+                    <p className="mt-2 text-[10px] text-slate-600 font-medium leading-relaxed">Record captures every engine call into a cassette; Replay serves the cassette back without network access and fails loudly on any request it has not seen.</p>
+                  </div>
+                  <div className="flex items-center bg-slate-800/40 rounded-lg p-0.5 border border-slate-700/50 shrink-0">
+                    {CASSETTE_MODES.map(m => (
+                      <button
+                        key={m.value}
+                        onClick={() => {
+                          if (m.value === 'replay') cassetteStore.rewind();
+                          setSystemConfig({ ...systemConfig, cassetteMode: m.value });
+                        }}
+                        className={`px-3 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${
+                          systemConfig.cassetteMode === m.value ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'
+                        }`}
+                      >
+                        {m.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="flex-1 text-[11px] font-mono text-slate-400">{cassetteSize} recorded call(s)</span>
+                  <label className="px-4 py-2 rounded-xl border border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white cursor-pointer transition-all">
+                    <i className="fas fa-file-import mr-2"></i>Load
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) loadCassetteFile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <button onClick={downloadCassette} className="px-4 py-2 rounded-xl border border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white transition-all">
+                    <i className="fas fa-download mr-2"></i>Download
+                  </button>
+                  <button
+                    onClick={() => cassetteStore.clear()}
+                    className="px-4 py-2 rounded-xl border border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-400 transition-all"
+                  >
+                    <i className="fas fa-trash mr-2"></i>Clear
+                  </button>
+                </div>
+              </div>
+
+              {Object.values(systemConfig.engineProviders).includes('openai-compatible') && (
+                <div className="bg-black/30 p-8 rounded-[2rem] border border-slate-800 space-y-4">
+                  <div>
+                    <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em] block">Local Model Server</span>
+                    <p className="mt-2 text-[10px] text-slate-600 font-medium leading-relaxed">Chat Completions endpoint for engines set to Local, such as llama.cpp (http://localhost:8080/v1) or Ollama (http://localhost:11434/v1). Local engines have no web search grounding.</p>
+                  </div>
+                  <input
+                    type="text"
+                    value={systemConfig.localEndpoint.baseUrl}
+                    onChange={(e) => setSystemConfig({ ...systemConfig, localEndpoint: { ...systemConfig.localEndpoint, baseUrl: e.target.value } })}
+                    placeholder="http://localhost:11434/v1"
+                    className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-sm text-slate-200 font-mono focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all placeholder-slate-700"
+                  />
+                  <input
+                    type="password"
+                    value={systemConfig.localEndpoint.apiKey}
+                    onChange={(e) => setSystemConfig({ ...systemConfig, localEndpoint: { ...systemConfig.localEndpoint, apiKey: e.target.value } })}
+                    placeholder="API key (optional)"
+                    className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-sm text-slate-200 font-mono focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all placeholder-slate-700"
+                  />
+                </div>
+              )}
+
+              <div className="bg-black/30 p-8 rounded-[2rem] border border-slate-800 space-y-4">
+                <div>
+                  <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em] block">Conversation Memory Budget</span>
+                  <p className="mt-2 text-[10px] text-slate-600 font-medium leading-relaxed">Estimated tokens of prior chat sent to the Conductor per model. Older turns beyond the budget are compacted into a rolling summary.</p>
+                </div>
+                {Array.from(new Set([systemConfig.conductorModel, 'gemini-flash-lite-latest'])).map(model => (
+                  <div key={model} className="flex items-center gap-4">
+                    <span className="flex-1 text-[11px] font-mono text-slate-400 truncate">{model}</span>
+                    <input
+                      type="number"
+                      min={SETTING_LIMITS.historyTokenBudget.min}
+                      step={1000}
+                      value={systemConfig.historyTokenBudgets[model] ?? DEFAULT_HISTORY_TOKEN_BUDGET}
+                      onChange={(e) => setSystemConfig({
+                        ...systemConfig,
+                        historyTokenBudgets: { ...systemConfig.historyTokenBudgets, [model]: clampSetting('historyTokenBudget', e.target.value) }
+                      })}
+                      className="w-32 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm text-slate-200 text-right outline-none focus:ring-4 focus:ring-indigo-500/10"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-black/30 p-8 rounded-[2rem] border border-slate-800 space-y-4">
+                <div>
+                  <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em] block">Timeouts &amp; Retries</span>
+                  <p className="mt-2 text-[10px] text-slate-600 font-medium leading-relaxed">Seconds each engine may spend on a call before it is abandoned, backoff waits included. Rate limits (429) and transient server errors (5xx) are retried with exponential backoff up to the given number of times.</p>
+                </div>
+                <div className="grid grid-cols-5 gap-4">
+                  {(['conductor', 'research', 'coder', 'validator'] as const).map(role => (
+                    <label key={role} className="space-y-2">
+                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-600 block">{role}</span>
+                      <input
+                        type="number"
+                        min={SETTING_LIMITS.agentTimeout.min}
+                        step={10}
+                        value={systemConfig.agentTimeouts[role]}
+                        onChange={(e) => setSystemConfig({
+                          ...systemConfig,
+                          agentTimeouts: { ...systemConfig.agentTimeouts, [role]: clampSetting('agentTimeout', e.target.value) }
+                        })}
+                        className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm text-slate-200 text-right outline-none focus:ring-4 focus:ring-indigo-500/10"
+                      />
+                    </label>
+                  ))}
+                  <label className="space-y-2">
+                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-600 block">Retries</span>
+                    <input
+                      type="number"
+                      min={SETTING_LIMITS.maxRetries.min}
+                      max={SETTING_LIMITS.maxRetries.max}
+                      value={systemConfig.maxRetries}
+                      onChange={(e) => setSystemConfig({ ...systemConfig, maxRetries: clampSetting('maxRetries', e.target.value) })}
+                      className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm text-slate-200 text-right outline-none focus:ring-4 focus:ring-indigo-500/10"
+                    />
+                  </label>
+                </div>
+              </div>
+
+              <div className="bg-black/30 p-8 rounded-[2rem] border border-slate-800 space-y-4">
+                <div className="flex items-start justify-between gap-6">
+                  <div>
+                    <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em] block">Token Pricing &amp; Spend Limits</span>
+                    <p className="mt-2 text-[10px] text-slate-600 font-medium leading-relaxed">USD per million tokens, used by each project's usage tab. Thinking tokens bill at the output rate. Past the soft limit a project's runs log a warning; at the hard limit further agent calls are blocked. 0 disables a limit.</p>
+                  </div>
+                  <button onClick={addModelPrice} className="shrink-0 px-4 py-2 rounded-xl border border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white transition-all">
+                    <i className="fas fa-plus mr-2"></i>Model
+                  </button>
+                </div>
+                <div className="grid grid-cols-[1fr_6rem_6rem_6rem_2rem] gap-3 items-center text-[9px] font-black uppercase tracking-widest text-slate-600">
+                  <span>Model</span>
+                  <span className="text-right">Input</span>
+                  <span className="text-right">Cached</span>
+                  <span className="text-right">Output</span>
+                  <span></span>
+                  {Object.entries(systemConfig.modelPrices as Record<string, ModelPrice>).map(([model, price]) => (
+                    <React.Fragment key={model}>
+                      <span className="text-[11px] font-mono normal-case tracking-normal text-slate-400 truncate">{model}</span>
+                      {(['input', 'cachedInput', 'output'] as const).map(field => (
+                        <input
+                          key={field}
+                          type="number"
+                          min={SETTING_LIMITS.price.min}
+                          step={0.01}
+                          value={price[field]}
+                          onChange={(e) => setSystemConfig({
+                            ...systemConfig,
+                            modelPrices: { ...systemConfig.modelPrices, [model]: { ...price, [field]: clampSetting('price', e.target.value) } }
+                          })}
+                          className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-200 text-right outline-none focus:ring-4 focus:ring-indigo-500/10"
+                        />
+                      ))}
+                      <button
+                        onClick={() => {
+                          const { [model]: _removed, ...rest } = systemConfig.modelPrices;
+                          setSystemConfig({ ...systemConfig, modelPrices: rest });
+                        }}
+                        title={`Remove ${model}`}
+                        className="text-slate-600 hover:text-red-400 transition-all"
+                      >
+                        <i className="fas fa-times"></i>
+                      </button>
+                    </React.Fragment>
+                  ))}
+                </div>
+                <div className="flex items-center gap-6 pt-2">
+                  {(['soft', 'hard'] as const).map(kind => (
+                    <label key={kind} className="flex items-center gap-3">
+                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-600">{kind} limit $</span>
+                      <input
+                        type="number"
+                        min={SETTING_LIMITS.spendLimit.min}
+                        step={1}
+                        value={systemConfig.spendLimits[kind]}
+                        onChange={(e) => setSystemConfig({
+                          ...systemConfig,
+                          spendLimits: { ...systemConfig.spendLimits, [kind]: clampSetting('spendLimit', e.target.value) }
+                        })}
+                        className="w-28 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-200 text-right outline-none focus:ring-4 focus:ring-indigo-500/10"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-black/30 p-8 rounded-[2rem] border border-slate-800 flex items-center gap-6">
+                <div className="flex-1">
+                  <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.2em] block">Self-Correction Loop</span>
+                  <p className="mt-2 text-[10px] text-slate-600 font-medium leading-relaxed">When the Validator fails a proposal, hand its report back to the Coder for a revised changeset, up to the given number of repair passes. Every attempt stays reviewable in the Integration Checkpoint.</p>
+                </div>
+                <input
+                  type="number"
+                  min={SETTING_LIMITS.maxRepairIterations.min}
+                  max={SETTING_LIMITS.maxRepairIterations.max}
+                  value={systemConfig.maxRepairIterations}
+                  disabled={!systemConfig.autoRepair}
+                  onChange={(e) => setSystemConfig({ ...systemConfig, maxRepairIterations: clampSetting('maxRepairIterations', e.target.value) })}
+                  className="w-20 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm text-slate-200 text-right outline-none focus:ring-4 focus:ring-indigo-500/10 disabled:opacity-40"
+                />
+                <button
+                  onClick={() => setSystemConfig({ ...systemConfig, autoRepair: !systemConfig.autoRepair })}
+                  className={`px-4 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${
+                    systemConfig.autoRepair ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-500 hover:text-slate-200'
+                  }`}
+                >
+                  {systemConfig.autoRepair ? 'Enabled' : 'Disabled'}
+                </button>
               </div>
 
               <div className="bg-indigo-600/5 border border-indigo-500/20 rounded-3xl p-6 flex gap-6 items-center">
@@ -0,0 +1,203 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TokenKind, highlightLines } from '../services/highlightService';
+
+interface CodeEditorProps {
+  value: string;
+  language: string;
+  onChange: (value: string) => void;
+  onSave: () => void;
+}
+
+const TOKEN_STYLES: Record<TokenKind, string> = {
+  plain: 'text-slate-300',
+  comment: 'text-slate-600 italic',
+  string: 'text-emerald-300',
+  keyword: 'text-violet-400',
+  number: 'text-amber-300',
+  type: 'text-sky-300',
+  function: 'text-indigo-300',
+  punct: 'text-slate-500',
+  tag: 'text-rose-300',
+  attr: 'text-amber-200',
+  heading: 'text-indigo-300 font-bold'
+};
+
+// The textarea sits over the highlighted <pre>; both layers must share these metrics exactly
+const LINE_HEIGHT = 20;
+const LAYER = 'm-0 p-4 code-font text-[12px] leading-[20px] whitespace-pre';
+const INDENT = '  ';
+
+const findMatches = (text: string, query: string) => {
+  if (!query) return [];
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const matches: number[] = [];
+  for (let idx = haystack.indexOf(needle); idx >= 0; idx = haystack.indexOf(needle, idx + needle.length)) matches.push(idx);
+  return matches;
+};
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ value, language, onChange, onSave }) => {
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const findRef = useRef<HTMLInputElement>(null);
+  // Caret to restore after a programmatic edit re-renders the controlled textarea
+  const pendingSelection = useRef<[number, number] | null>(null);
+
+  const lines = useMemo(() => highlightLines(value, language), [value, language]);
+  const matches = useMemo(() => findMatches(value, query), [value, query]);
+  const activeMatch = matches.length ? Math.min(current, matches.length - 1) : -1;
+
+  useEffect(() => {
+    if (!pendingSelection.current || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(...pendingSelection.current);
+    pendingSelection.current = null;
+  }, [value]);
+
+  const revealMatch = (index: number) => {
+    if (index < 0 || !scrollRef.current || !textareaRef.current) return;
+    const start = matches[index];
+    const line = value.slice(0, start).split('\n').length - 1;
+    scrollRef.current.scrollTop = Math.max(0, line * LINE_HEIGHT - scrollRef.current.clientHeight / 2);
+    textareaRef.current.setSelectionRange(start, start + query.length);
+  };
+
+  useEffect(() => {
+    if (isFindOpen) revealMatch(activeMatch);
+  }, [activeMatch, query, isFindOpen]);
+
+  const step = (delta: number) => {
+    if (matches.length === 0) return;
+    setCurrent((activeMatch + delta + matches.length) % matches.length);
+  };
+
+  const openFind = () => {
+    const textarea = textareaRef.current;
+    const selected = textarea ? value.slice(textarea.selectionStart, textarea.selectionEnd) : '';
+    if (selected && !selected.includes('\n')) setQuery(selected);
+    setIsFindOpen(true);
+    requestAnimationFrame(() => findRef.current?.select());
+  };
+
+  const closeFind = () => {
+    setIsFindOpen(false);
+    textareaRef.current?.focus();
+  };
+
+  const handleShortcut = (e: React.KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey)) return false;
+    const key = e.key.toLowerCase();
+    if (key === 's') onSave();
+    else if (key === 'f') openFind();
+    else return false;
+    e.preventDefault();
+    return true;
+  };
+
+  const handleEditorKey = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (handleShortcut(e)) return;
+    if (e.key === 'Escape' && isFindOpen) {
+      closeFind();
+      return;
+    }
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const { selectionStart: start, selectionEnd: end } = e.currentTarget;
+    // Tab indents (Shift+Tab outdents) every selected line; without a selection it inserts spaces
+    if (start === end && !e.shiftKey) {
+      pendingSelection.current = [start + INDENT.length, start + INDENT.length];
+      onChange(value.slice(0, start) + INDENT + value.slice(end));
+      return;
+    }
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const block = value.slice(lineStart, end);
+    const updated = e.shiftKey
+      ? block.replace(/^ {1,2}/gm, '')
+      : block.replace(/^/gm, INDENT);
+    const firstShift = e.shiftKey ? -(block.length - block.replace(/^ {1,2}/, '').length) : INDENT.length;
+    pendingSelection.current = [Math.max(lineStart, start + firstShift), end + updated.length - block.length];
+    onChange(value.slice(0, lineStart) + updated + value.slice(end));
+  };
+
+  // Match backgrounds render in their own transparent-text layer beneath the highlighted code
+  const matchLayer = useMemo(() => {
+    if (!isFindOpen || matches.length === 0) return null;
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    matches.forEach((start, idx) => {
+      parts.push(value.slice(cursor, start));
+      parts.push(
+        <mark key={start} className={`text-transparent rounded-sm ${idx === activeMatch ? 'bg-amber-400/50' : 'bg-amber-400/20'}`}>
+          {value.slice(start, start + query.length)}
+        </mark>
+      );
+      cursor = start + query.length;
+    });
+    parts.push(value.slice(cursor));
+    return parts;
+  }, [isFindOpen, matches, activeMatch, value, query]);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col relative">
+      {isFindOpen && (
+        <div className="absolute top-3 right-6 z-20 flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 shadow-2xl">
+          <i className="fas fa-search text-[10px] text-slate-600"></i>
+          <input
+            ref={findRef}
+            type="text"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setCurrent(0); }}
+            onKeyDown={(e) => {
+              if (handleShortcut(e)) return;
+              if (e.key === 'Enter') { e.preventDefault(); step(e.shiftKey ? -1 : 1); }
+              if (e.key === 'Escape') closeFind();
+            }}
+            placeholder="Find"
+            className="w-48 bg-transparent text-[12px] text-slate-200 outline-none placeholder-slate-700 code-font"
+          />
+          <span className="text-[10px] font-mono text-slate-500 w-14 text-right">
+            {query ? `${matches.length ? activeMatch + 1 : 0}/${matches.length}` : ''}
+          </span>
+          <button onClick={() => step(-1)} title="Previous (Shift+Enter)" className="text-slate-500 hover:text-white px-1"><i className="fas fa-chevron-up text-[10px]"></i></button>
+          <button onClick={() => step(1)} title="Next (Enter)" className="text-slate-500 hover:text-white px-1"><i className="fas fa-chevron-down text-[10px]"></i></button>
+          <button onClick={closeFind} title="Close (Esc)" className="text-slate-500 hover:text-white px-1"><i className="fas fa-times text-[10px]"></i></button>
+        </div>
+      )}
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-auto scrollbar-thin bg-black/40">
+        <div className="flex min-w-full w-max min-h-full">
+          <div className={`${LAYER} sticky left-0 z-10 bg-[#050b1a] text-right text-slate-700 select-none border-r border-slate-800/60`} aria-hidden>
+            {lines.map((_tokens, idx) => <div key={idx}>{idx + 1}</div>)}
+          </div>
+          <div className="relative flex-1">
+            {matchLayer && <pre className={`${LAYER} absolute inset-0 text-transparent pointer-events-none`} aria-hidden>{matchLayer}{' '}</pre>}
+            <pre className={`${LAYER} relative pointer-events-none`} aria-hidden>
+              {lines.map((tokens, idx) => (
+                <React.Fragment key={idx}>
+                  {tokens.map((token, t) => <span key={t} className={TOKEN_STYLES[token.kind]}>{token.text}</span>)}
+                  {idx < lines.length - 1 ? '\n' : ' '}
+                </React.Fragment>
+              ))}
+            </pre>
+            <textarea
+              ref={textareaRef}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              onKeyDown={handleEditorKey}
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+              wrap="off"
+              className={`${LAYER} absolute inset-0 w-full h-full resize-none overflow-hidden bg-transparent text-transparent caret-indigo-300 outline-none selection:bg-indigo-500/30`}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CodeEditor;
@@ -0,0 +1,213 @@
+
+import React, { useMemo, useState } from 'react';
+import { IssueSeverity, ValidationIssue } from '../types';
+import { DiffLine, diffLines, diffStats, segmentDiff } from '../services/diffService';
+
+interface DiffViewProps {
+  // null when the file does not exist yet in the workspace
+  oldText: string | null;
+  newText: string;
+  // When provided, each change block gets accept/reject controls
+  rejectedHunks?: Set<number>;
+  onToggleHunk?: (hunk: number) => void;
+  // Validator issues anchored to line numbers of newText
+  annotations?: ValidationIssue[];
+}
+
+type DiffMode = 'unified' | 'split';
+
+// A removed line immediately followed by an added one is rendered as a change in split mode
+interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'equal') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'remove') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'add') added.push(lines[i++]);
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      rows.push({ left: removed[r], right: added[r] });
+    }
+  }
+  return rows;
+};
+
+const LINE_STYLES = {
+  equal: 'text-slate-400',
+  add: 'bg-emerald-500/10 text-emerald-300',
+  remove: 'bg-red-500/10 text-red-300',
+  changedOld: 'bg-amber-500/10 text-amber-200/80',
+  changedNew: 'bg-amber-500/15 text-amber-200'
+};
+
+const ISSUE_STYLES: Record<IssueSeverity, { box: string; icon: string }> = {
+  info: { box: 'border-sky-500/30 bg-sky-500/5 text-sky-300', icon: 'fa-info-circle' },
+  warning: { box: 'border-amber-500/30 bg-amber-500/5 text-amber-300', icon: 'fa-exclamation-triangle' },
+  error: { box: 'border-red-500/30 bg-red-500/5 text-red-300', icon: 'fa-times-circle' }
+};
+
+const IssueNote: React.FC<{ issue: ValidationIssue }> = ({ issue }) => (
+  <div className={`mx-6 my-1 px-4 py-2 rounded-lg border font-sans text-[11px] whitespace-normal ${ISSUE_STYLES[issue.severity].box}`}>
+    <p>
+      <i className={`fas ${ISSUE_STYLES[issue.severity].icon} mr-2`}></i>
+      <span className="font-black uppercase text-[9px] tracking-widest mr-2">
+        L{issue.startLine}{issue.endLine && issue.endLine !== issue.startLine ? `-${issue.endLine}` : ''}
+      </span>
+      {issue.message}
+    </p>
+    {issue.suggestedFix && (
+      <pre className="mt-2 p-2 rounded bg-black/40 text-slate-300 code-font text-[11px] whitespace-pre-wrap">{issue.suggestedFix}</pre>
+    )}
+  </div>
+);
+
+const Gutter: React.FC<{ value?: number }> = ({ value }) => (
+  <span className="w-12 shrink-0 pr-3 text-right text-slate-700 select-none">{value ?? ''}</span>
+);
+
+const DiffView: React.FC<DiffViewProps> = ({ oldText, newText, rejectedHunks, onToggleHunk, annotations = [] }) => {
+  const [mode, setMode] = useState<DiffMode>('unified');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const lines = useMemo(() => diffLines(oldText ?? '', newText), [oldText, newText]);
+  const segments = useMemo(() => segmentDiff(lines), [lines]);
+  const stats = diffStats(lines);
+
+  // Each issue is shown once, below the last line of its range
+  const notesByLine = useMemo(() => {
+    const map = new Map<number, ValidationIssue[]>();
+    annotations.filter(i => i.startLine).forEach(issue => {
+      const anchor = issue.endLine ?? issue.startLine!;
+      map.set(anchor, [...(map.get(anchor) || []), issue]);
+    });
+    return map;
+  }, [annotations]);
+  const isFlagged = (line?: DiffLine) => !!line?.newNumber && annotations.some(i =>
+    i.startLine && line.newNumber! >= i.startLine && line.newNumber! <= (i.endLine ?? i.startLine));
+  const notesFor = (line?: DiffLine) => line?.newNumber && line.type !== 'remove' ? notesByLine.get(line.newNumber) || [] : [];
+
+  const renderUnified = (segmentLines: DiffLine[]) => segmentLines.map((line, idx) => (
+    <React.Fragment key={idx}>
+      <div className={`flex ${LINE_STYLES[line.type]} ${isFlagged(line) ? 'shadow-[inset_3px_0_0_rgba(248,113,113,0.7)]' : ''}`}>
+        <Gutter value={line.oldNumber} />
+        <Gutter value={line.newNumber} />
+        <span className="w-5 shrink-0 select-none opacity-60">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+        <span className="whitespace-pre">{line.text}</span>
+      </div>
+      {notesFor(line).map((issue, n) => <IssueNote key={n} issue={issue} />)}
+    </React.Fragment>
+  ));
+
+  const renderSplit = (segmentLines: DiffLine[]) => toSplitRows(segmentLines).map((row, idx) => {
+    const isChanged = !!row.left && !!row.right && row.left.type === 'remove' && row.right.type === 'add';
+    const leftStyle = !row.left ? 'bg-slate-900/40' : isChanged ? LINE_STYLES.changedOld : LINE_STYLES[row.left.type];
+    const rightStyle = !row.right ? 'bg-slate-900/40' : isChanged ? LINE_STYLES.changedNew : LINE_STYLES[row.right.type];
+    return (
+      <React.Fragment key={idx}>
+        <div className="grid grid-cols-2">
+          <div className={`flex overflow-hidden border-r border-slate-800 ${leftStyle}`}>
+            <Gutter value={row.left?.oldNumber} />
+            <span className="whitespace-pre">{row.left?.text}</span>
+          </div>
+          <div className={`flex overflow-hidden ${rightStyle} ${isFlagged(row.right) ? 'shadow-[inset_3px_0_0_rgba(248,113,113,0.7)]' : ''}`}>
+            <Gutter value={row.right?.newNumber} />
+            <span className="whitespace-pre">{row.right?.text}</span>
+          </div>
+        </div>
+        {notesFor(row.right).map((issue, n) => <IssueNote key={n} issue={issue} />)}
+      </React.Fragment>
+    );
+  });
+
+  const render = mode === 'unified' ? renderUnified : renderSplit;
+
+  return (
+    <div className="rounded-3xl border border-slate-800 bg-black/60 overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-slate-800 bg-slate-900/40">
+        <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest">
+          {oldText === null ? (
+            <span className="px-2 py-0.5 rounded border border-emerald-500/30 bg-emerald-500/10 text-emerald-400">New File</span>
+          ) : (
+            <>
+              <span className="text-emerald-400">+{stats.added}</span>
+              <span className="text-red-400">-{stats.removed}</span>
+            </>
+          )}
+        </div>
+        {oldText !== null && (
+          <div className="flex items-center bg-slate-800/40 rounded-lg p-0.5 border border-slate-700/50">
+            {(['unified', 'split'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${
+                  mode === m ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'
+                }`}
+              >
+                {m === 'unified' ? 'Unified' : 'Side-by-Side'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="text-[12px] code-font leading-relaxed max-h-[400px] overflow-auto scrollbar-thin py-2">
+        {oldText !== null && stats.added === 0 && stats.removed === 0 && (
+          <p className="px-6 py-4 text-[10px] font-black uppercase tracking-widest text-slate-600">No textual changes</p>
+        )}
+        {segments.map((segment, idx) => {
+          const hasNotes = segment.lines.some(line => notesFor(line).length > 0);
+          if (segment.kind === 'collapsed' && !expanded.has(idx) && !hasNotes) {
+            return (
+              <button
+                key={idx}
+                onClick={() => setExpanded(prev => new Set(prev).add(idx))}
+                className="w-full text-left px-6 py-1 my-1 bg-indigo-500/5 text-indigo-400/70 hover:text-indigo-300 text-[10px] font-black uppercase tracking-widest"
+              >
+                <i className="fas fa-arrows-alt-v mr-2"></i>{segment.lines.length} unchanged lines
+              </button>
+            );
+          }
+          if (segment.kind === 'change' && onToggleHunk) {
+            const isRejected = rejectedHunks?.has(segment.hunk) ?? false;
+            return (
+              <div key={idx} className={`my-1 border-y ${isRejected ? 'border-slate-800 opacity-40' : 'border-indigo-500/20'}`}>
+                <div className="flex items-center justify-between px-6 py-1 bg-slate-900/60 text-[9px] font-black uppercase tracking-widest">
+                  <span className={isRejected ? 'text-slate-600 line-through' : 'text-indigo-400/80'}>Hunk {segment.hunk + 1}</span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => isRejected && onToggleHunk(segment.hunk)}
+                      className={`px-2 py-0.5 rounded border transition-all ${!isRejected ? 'border-emerald-500/30 bg-emerald-500/10 text-emerald-400' : 'border-slate-700 text-slate-600 hover:text-emerald-400'}`}
+                    >
+                      <i className="fas fa-check mr-1"></i>Accept
+                    </button>
+                    <button
+                      onClick={() => !isRejected && onToggleHunk(segment.hunk)}
+                      className={`px-2 py-0.5 rounded border transition-all ${isRejected ? 'border-red-500/30 bg-red-500/10 text-red-400' : 'border-slate-700 text-slate-600 hover:text-red-400'}`}
+                    >
+                      <i className="fas fa-times mr-1"></i>Reject
+                    </button>
+                  </div>
+                </div>
+                {render(segment.lines)}
+              </div>
+            );
+          }
+          return <React.Fragment key={idx}>{render(segment.lines)}</React.Fragment>;
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DiffView;
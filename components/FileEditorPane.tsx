@@ -0,0 +1,114 @@
+
+import React from 'react';
+import { ProjectFile } from '../types';
+import CodeEditor from './CodeEditor';
+
+interface FileEditorPaneProps {
+  files: ProjectFile[];
+  openFiles: string[];
+  activeFile: string | null;
+  // Unsaved edits keyed by file name; base is the content the edit started from
+  drafts: Record<string, { base: string; content: string }>;
+  onActivate: (fileName: string) => void;
+  onClose: (fileName: string) => void;
+  onChange: (fileName: string, content: string) => void;
+  onSave: (fileName: string) => void;
+  onDiscard: (fileName: string) => void;
+  onCopy: (content: string) => void;
+}
+
+const FileEditorPane: React.FC<FileEditorPaneProps> = ({ files, openFiles, activeFile, drafts, onActivate, onClose, onChange, onSave, onDiscard, onCopy }) => {
+  const file = files.find(f => f.name === activeFile);
+
+  if (openFiles.length === 0 || !file) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center opacity-30">
+        <i className="fas fa-code text-5xl mb-6"></i>
+        <p className="text-[10px] font-black uppercase tracking-[0.4em]">Select a file to edit</p>
+      </div>
+    );
+  }
+
+  const draft = drafts[file.name];
+  const content = draft ? draft.content : file.content;
+  // The file moved on (an approval or revert) while the edit was open
+  const isStale = !!draft && draft.base !== file.content;
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="flex items-end gap-1 px-4 border-b border-slate-800 overflow-x-auto scrollbar-thin shrink-0">
+        {openFiles.map(name => {
+          const isActive = name === file.name;
+          return (
+            <div
+              key={name}
+              className={`group flex items-center gap-2 pl-4 pr-2 py-2 rounded-t-lg border border-b-0 text-[11px] font-mono cursor-pointer shrink-0 ${
+                isActive ? 'bg-black/40 border-slate-700 text-slate-200' : 'border-transparent text-slate-500 hover:text-slate-300'
+              }`}
+              onClick={() => onActivate(name)}
+              title={name}
+            >
+              <span className="max-w-[180px] truncate">{name.split('/').pop()}</span>
+              {drafts[name] && <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="Unsaved changes"></span>}
+              <button
+                onClick={(e) => { e.stopPropagation(); onClose(name); }}
+                className="w-4 h-4 flex items-center justify-center rounded text-slate-600 hover:text-white opacity-0 group-hover:opacity-100"
+              >
+                <i className="fas fa-times text-[8px]"></i>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 px-6 py-2 border-b border-slate-800/60 shrink-0">
+        <div className="flex items-center gap-4 min-w-0">
+          <div className="px-3 py-1 bg-slate-800 rounded text-[10px] font-mono text-slate-300 border border-slate-700 truncate">{file.name}</div>
+          <div className="text-[8px] font-black text-indigo-500 uppercase tracking-widest shrink-0">{file.language} Source</div>
+        </div>
+        <div className="flex items-center gap-4 shrink-0">
+          <button
+            onClick={() => onCopy(content)}
+            className="text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-white transition-colors"
+          >
+            <i className="fas fa-copy mr-2"></i> Copy Code
+          </button>
+          {draft && (
+            <>
+              <button
+                onClick={() => onDiscard(file.name)}
+                className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 transition-colors"
+              >
+                <i className="fas fa-undo mr-2"></i> Discard
+              </button>
+              <button
+                onClick={() => onSave(file.name)}
+                title="Save as a user revision (Ctrl+S)"
+                className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-[9px] font-black uppercase tracking-widest transition-all"
+              >
+                <i className="fas fa-save mr-2"></i> Save
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isStale && (
+        <div className="px-6 py-2 bg-amber-500/5 border-b border-amber-500/20 text-[11px] text-amber-300 shrink-0">
+          <i className="fas fa-exclamation-triangle mr-2"></i>
+          {file.name} changed since you started editing. Saving will overwrite those changes; discard to load the current version.
+        </div>
+      )}
+
+      <CodeEditor
+        key={file.name}
+        value={content}
+        language={file.language}
+        onChange={(next) => onChange(file.name, next)}
+        onSave={() => onSave(file.name)}
+      />
+    </div>
+  );
+};
+
+export default FileEditorPane;
@@ -0,0 +1,131 @@
+
+import React, { useMemo, useState } from 'react';
+import { FileRevision, Project, VerdictStatus } from '../types';
+import { Approval, fileHistory, groupApprovals, MAX_APPROVALS, MAX_HISTORY_CHARS } from '../services/revisionService';
+import DiffView from './DiffView';
+
+interface FileHistoryPanelProps {
+  project: Project;
+  onRevertFile: (revision: FileRevision) => void;
+  onRevertApproval: (approval: Approval) => void;
+}
+
+const ACTION_LABEL: Record<FileRevision['action'], string> = {
+  create: 'text-emerald-400',
+  modify: 'text-indigo-400',
+  rename: 'text-amber-400',
+  delete: 'text-red-400'
+};
+
+const VERDICT_STYLES: Record<VerdictStatus, string> = {
+  pass: 'text-emerald-400/60 border-emerald-500/30',
+  warn: 'text-amber-400/60 border-amber-500/30',
+  fail: 'text-red-400/60 border-red-500/30'
+};
+
+const FileHistoryPanel: React.FC<FileHistoryPanelProps> = ({ project, onRevertFile, onRevertApproval }) => {
+  const revisions = project.revisions || [];
+  const [fileFilter, setFileFilter] = useState<string>('');
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+
+  const knownFiles = useMemo(() => Array.from(new Set(revisions.map(r => r.fileName))).sort(), [revisions]);
+  const approvals = useMemo(() => {
+    const all = groupApprovals(revisions);
+    if (!fileFilter) return all;
+    const ids = new Set(fileHistory(revisions, fileFilter).map(r => r.id));
+    return all
+      .map(a => ({ ...a, revisions: a.revisions.filter(r => ids.has(r.id)) }))
+      .filter(a => a.revisions.length > 0);
+  }, [revisions, fileFilter]);
+
+  const selected = revisions.find(r => r.id === selectedRevisionId) || approvals[0]?.revisions[0] || null;
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center opacity-30">
+        <i className="fas fa-history text-6xl mb-6"></i>
+        <p className="text-[10px] font-black uppercase tracking-[0.4em]">No integrations recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 grid grid-cols-12 gap-8 min-h-0">
+      <div className="col-span-5 space-y-4 overflow-y-auto scrollbar-thin pr-2">
+        <select
+          value={fileFilter}
+          onChange={(e) => setFileFilter(e.target.value)}
+          className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-[11px] font-mono text-slate-300 outline-none"
+        >
+          <option value="">All files</option>
+          {knownFiles.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <p className="text-[9px] text-slate-600 font-medium">
+          Keeps the newest {MAX_APPROVALS} approvals, up to {MAX_HISTORY_CHARS / 1_000_000}M characters of file contents; older ones are dropped.
+        </p>
+
+        {approvals.map(approval => (
+          <div key={approval.approvalId} className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-600">
+                  {new Date(approval.timestamp).toLocaleString()} · {approval.author === 'agent' ? 'Cluster' : 'User'}
+                  {approval.revertOf && <span className="ml-2 text-amber-500">Revert</span>}
+                </p>
+                <p className="text-[11px] text-slate-300 font-medium mt-1 line-clamp-2">{approval.description}</p>
+              </div>
+              <button
+                onClick={() => onRevertApproval(approval)}
+                className="shrink-0 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-amber-400 transition-colors"
+                title="Undo every file change of this approval"
+              >
+                <i className="fas fa-undo mr-1"></i>Revert All
+              </button>
+            </div>
+            {approval.verdict && (
+              <p className={`text-[10px] italic line-clamp-2 border-l pl-2 ${VERDICT_STYLES[approval.verdict.status]}`}>
+                <span className="not-italic font-black uppercase mr-2">{approval.verdict.status}{approval.verdictOverridden && ' · overridden'}</span>
+                {approval.verdict.summary}
+              </p>
+            )}
+            <div className="space-y-1">
+              {approval.revisions.map(rev => (
+                <button
+                  key={rev.id}
+                  onClick={() => setSelectedRevisionId(rev.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-[10px] font-mono flex items-center gap-2 transition-all ${
+                    selected?.id === rev.id ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-800/50 hover:text-slate-300'
+                  }`}
+                >
+                  <span className={`uppercase font-black text-[8px] w-12 ${ACTION_LABEL[rev.action]}`}>{rev.action}</span>
+                  <span className="truncate">{rev.previousFileName ? `${rev.previousFileName} → ${rev.fileName}` : rev.fileName}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="col-span-7 space-y-4 overflow-y-auto scrollbar-thin">
+        {selected && (
+          <>
+            <div className="flex items-center justify-between">
+              <h3 className="text-[10px] font-black uppercase text-slate-500 tracking-[0.3em]">
+                Revision: <span className="text-indigo-400">{selected.fileName}</span>
+              </h3>
+              <button
+                onClick={() => onRevertFile(selected)}
+                className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg border border-slate-700 text-slate-400 hover:text-amber-400 hover:border-amber-500/30 transition-all"
+              >
+                <i className="fas fa-history mr-2"></i>Restore This Version
+              </button>
+            </div>
+            <DiffView key={selected.id} oldText={selected.before} newText={selected.after ?? ''} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileHistoryPanel;
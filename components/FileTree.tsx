@@ -0,0 +1,138 @@
+
+import React, { useMemo, useState } from 'react';
+import { ProjectFile } from '../types';
+import { FileTreeNode, buildFileTree } from '../services/pathService';
+
+interface FileTreeProps {
+  files: ProjectFile[];
+  // Folders the user created that hold no files yet
+  emptyFolders: string[];
+  activeFile: string | null;
+  dirtyFiles: Set<string>;
+  onOpenFile: (fileName: string) => void;
+  onNewFile: (folder: string) => void;
+  onNewFolder: (folder: string) => void;
+  onRename: (node: FileTreeNode) => void;
+  onDelete: (node: FileTreeNode) => void;
+  // Drag and drop: '' is the project root
+  onMove: (node: FileTreeNode, folder: string) => void;
+}
+
+const DRAG_TYPE = 'application/x-trinity-path';
+
+const ActionButton: React.FC<{ icon: string; title: string; onClick: () => void; danger?: boolean }> = ({ icon, title, onClick, danger }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    title={title}
+    className={`w-5 h-5 flex items-center justify-center rounded text-slate-600 ${danger ? 'hover:text-red-400' : 'hover:text-white'}`}
+  >
+    <i className={`fas ${icon} text-[9px]`}></i>
+  </button>
+);
+
+const FileTree: React.FC<FileTreeProps> = ({ files, emptyFolders, activeFile, dirtyFiles, onOpenFile, onNewFile, onNewFolder, onRename, onDelete, onMove }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const tree = useMemo(() => buildFileTree(files, emptyFolders), [files, emptyFolders]);
+  const nodesByPath = useMemo(() => {
+    const map = new Map<string, FileTreeNode>();
+    const walk = (nodes: FileTreeNode[]) => nodes.forEach(n => { map.set(`${n.kind}:${n.path}`, n); walk(n.children); });
+    walk(tree);
+    return map;
+  }, [tree]);
+
+  const toggle = (path: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(path)) next.delete(path);
+    else next.add(path);
+    return next;
+  });
+
+  const collapseAll = () => {
+    const folders = new Set<string>();
+    nodesByPath.forEach((node: FileTreeNode) => { if (node.kind === 'folder') folders.add(node.path); });
+    setCollapsed(folders);
+  };
+
+  const dropProps = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(folder);
+    },
+    onDragLeave: () => setDropTarget(prev => prev === folder ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const node = nodesByPath.get(e.dataTransfer.getData(DRAG_TYPE));
+      if (node) onMove(node, folder);
+    }
+  });
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const isFolder = node.kind === 'folder';
+    const isOpen = isFolder && !collapsed.has(node.path);
+    const isActive = !isFolder && node.path === activeFile;
+    return (
+      <div key={`${node.kind}:${node.path}`}>
+        <div
+          draggable
+          onDragStart={(e) => e.dataTransfer.setData(DRAG_TYPE, `${node.kind}:${node.path}`)}
+          {...(isFolder ? dropProps(node.path) : {})}
+          onClick={() => isFolder ? toggle(node.path) : onOpenFile(node.path)}
+          style={{ paddingLeft: `${depth * 14 + 10}px` }}
+          title={node.path}
+          className={`group flex items-center gap-2 pr-2 py-1.5 rounded-lg text-[11px] font-mono cursor-pointer transition-all ${
+            dropTarget === node.path && isFolder ? 'bg-indigo-500/20 ring-1 ring-indigo-500/40' :
+            isActive ? 'bg-indigo-600/10 text-indigo-300' : 'text-slate-400 hover:bg-slate-800/60 hover:text-slate-200'
+          }`}
+        >
+          {isFolder ? (
+            <>
+              <i className={`fas fa-chevron-${isOpen ? 'down' : 'right'} text-[7px] w-2 text-slate-600`}></i>
+              <i className={`fas ${isOpen ? 'fa-folder-open' : 'fa-folder'} text-amber-500/60`}></i>
+            </>
+          ) : (
+            <>
+              <span className="w-2"></span>
+              <i className={`fas ${['ts', 'tsx'].includes(node.file!.language) ? 'fa-code text-indigo-500' : 'fa-file'} opacity-50`}></i>
+            </>
+          )}
+          <span className="truncate">{node.name}</span>
+          {dirtyFiles.has(node.path) && <span className="w-1.5 h-1.5 rounded-full bg-amber-400 shrink-0" title="Unsaved changes"></span>}
+          <div className="ml-auto flex items-center opacity-0 group-hover:opacity-100 shrink-0">
+            {isFolder && <ActionButton icon="fa-file-circle-plus" title="New file here" onClick={() => onNewFile(node.path)} />}
+            {isFolder && <ActionButton icon="fa-folder-plus" title="New folder here" onClick={() => onNewFolder(node.path)} />}
+            <ActionButton icon="fa-pen" title="Rename or move" onClick={() => onRename(node)} />
+            <ActionButton icon="fa-trash" title="Delete" onClick={() => onDelete(node)} danger />
+          </div>
+        </div>
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <div className="flex items-center justify-between mb-4 shrink-0">
+        <h3 className="text-[9px] font-black text-slate-600 uppercase tracking-[0.3em]">Volume Workspace</h3>
+        <div className="flex items-center gap-1">
+          <ActionButton icon="fa-file-circle-plus" title="New file" onClick={() => onNewFile('')} />
+          <ActionButton icon="fa-folder-plus" title="New folder" onClick={() => onNewFolder('')} />
+          <ActionButton icon="fa-compress" title="Collapse all" onClick={collapseAll} />
+        </div>
+      </div>
+      <div
+        {...dropProps('')}
+        className={`flex-1 overflow-y-auto scrollbar-thin rounded-xl pb-8 ${dropTarget === '' ? 'bg-indigo-500/5 ring-1 ring-indigo-500/20' : ''}`}
+      >
+        {tree.map(node => renderNode(node, 0))}
+        {tree.length === 0 && <p className="text-[10px] text-slate-600 italic px-3 py-4">No files yet.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default FileTree;
@@ -0,0 +1,378 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CodeChangeset, FileChange, FileChangeAction, ProjectFile, RepairAttempt, TestRunReport, TypecheckReport, TypecheckStatus, ValidationVerdict, VerdictStatus } from '../types';
+import { applyHunkSelection, baseContentFor, describeChange, HunkSelection, validateChangeset } from '../services/changesetService';
+import { isSameFile, issuesForFile, verdictNeedsOverride } from '../services/validationService';
+import { describeTypecheck, diagnosticIssues } from '../services/compilerService';
+import { describeTestRun } from '../services/testRunnerService';
+import DiffView from './DiffView';
+
+interface IntegrationCheckpointProps {
+  changeset: CodeChangeset;
+  files: ProjectFile[];
+  validation: ValidationVerdict | null;
+  // Raw Validator output while the verdict is still streaming in
+  validationStream?: string;
+  // Compiler diagnostics for the workspace with the latest changeset applied
+  typecheck?: TypecheckReport | null;
+  isTypechecking?: boolean;
+  // Sandbox run of the tests the changeset can affect; null when it touches no tested code
+  tests?: TestRunReport | null;
+  isTesting?: boolean;
+  // Earlier self-correction attempts, oldest first; the last one is the changeset under review
+  attempts?: RepairAttempt[];
+  // A repair pass is still producing the next attempt
+  isRepairing?: boolean;
+  // The pipeline is still checking the changeset; its verdict is not in yet
+  isProcessing?: boolean;
+  // Receives the changeset with rejected hunks already merged out
+  onApprove: (resolved: CodeChangeset) => void;
+  onDiscard: () => void;
+}
+
+const ACTION_STYLES: Record<FileChangeAction, string> = {
+  create: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+  modify: 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20',
+  rename: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  delete: 'bg-red-500/10 text-red-400 border-red-500/20'
+};
+
+const VERDICT_STYLES: Record<VerdictStatus, { panel: string; badge: string; icon: string }> = {
+  pass: { panel: 'bg-emerald-500/5 border-emerald-500/20', badge: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30', icon: 'fa-shield-alt' },
+  warn: { panel: 'bg-amber-500/5 border-amber-500/20', badge: 'bg-amber-500/10 text-amber-400 border-amber-500/30', icon: 'fa-exclamation-triangle' },
+  fail: { panel: 'bg-red-500/5 border-red-500/20', badge: 'bg-red-500/10 text-red-400 border-red-500/30', icon: 'fa-ban' }
+};
+
+const TYPECHECK_BADGES: Record<TypecheckStatus, string> = {
+  clean: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  errors: 'bg-red-500/10 text-red-400 border-red-500/30',
+  skipped: 'bg-slate-800 text-slate-500 border-slate-700',
+  unavailable: 'bg-amber-500/10 text-amber-400 border-amber-500/30'
+};
+
+const TEST_BADGES: Record<TestRunReport['status'], string> = {
+  pass: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  fail: 'bg-red-500/10 text-red-400 border-red-500/30',
+  error: 'bg-amber-500/10 text-amber-400 border-amber-500/30'
+};
+
+const SEVERITY_TEXT = { info: 'text-sky-400', warning: 'text-amber-400', error: 'text-red-400' };
+
+// Issues reference the file as it will exist after the change
+const targetName = (change: FileChange) => change.newFileName || change.fileName;
+
+const IntegrationCheckpoint: React.FC<IntegrationCheckpointProps> = ({
+  changeset: latestChangeset, files, validation: latestVerdict, validationStream, typecheck: latestTypecheck, isTypechecking = false, tests: latestTests, isTesting = false, attempts = [], isRepairing = false, isProcessing = false, onApprove, onDiscard
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [rejected, setRejected] = useState<HunkSelection>({});
+  const [showMerged, setShowMerged] = useState(false);
+  const [overrideFail, setOverrideFail] = useState(false);
+  const [viewedAttempt, setViewedAttempt] = useState<number | null>(null);
+
+  // A repair pass replaced the changeset; hunk choices and overrides referred to the old one
+  useEffect(() => {
+    setRejected({});
+    setOverrideFail(false);
+    setViewedAttempt(null);
+  }, [latestChangeset]);
+
+  // Superseded attempts are shown read-only in place of the latest changeset
+  const viewing = viewedAttempt !== null && attempts[viewedAttempt]?.changeset !== latestChangeset ? attempts[viewedAttempt] : null;
+  const changeset = viewing ? viewing.changeset : latestChangeset;
+  const validation = viewing ? viewing.verdict : latestVerdict;
+  const typecheck = viewing ? viewing.typecheck : latestTypecheck;
+  const tests = viewing ? viewing.tests : latestTests;
+
+  const resolved = useMemo(() => applyHunkSelection(files, changeset, viewing ? {} : rejected), [files, changeset, viewing, rejected]);
+  const conflicts = validateChangeset(files, resolved);
+  const selectedPosition = Math.min(selectedIndex, changeset.changes.length - 1);
+  const selected = changeset.changes[selectedPosition];
+  const baseContent = baseContentFor(files, resolved, selectedPosition);
+  const selectedRejected = new Set(rejected[selectedPosition] || []);
+  const rejectedCount = changeset.changes.reduce((sum, _change, idx) => sum + (rejected[idx]?.length || 0), 0);
+  const selectedIssues = [...issuesForFile(validation, targetName(selected)), ...diagnosticIssues(typecheck, targetName(selected))];
+  const isChecking = isProcessing || isTypechecking || isTesting || isRepairing;
+  // Missing verdicts (e.g. the run was stopped) and ones from a crashed or timed-out Validator count as unreviewed
+  const needsOverride = verdictNeedsOverride(latestVerdict);
+  const blockedByVerdict = needsOverride && !overrideFail;
+
+  const selectIssueFile = (fileName: string) => {
+    const idx = changeset.changes.findIndex(c => isSameFile(fileName, targetName(c)));
+    if (idx >= 0) setSelectedIndex(idx);
+  };
+
+  const toggleHunk = (hunk: number) => {
+    setRejected(prev => {
+      const current = prev[selectedPosition] || [];
+      const next = current.includes(hunk) ? current.filter(h => h !== hunk) : [...current, hunk];
+      return { ...prev, [selectedPosition]: next };
+    });
+  };
+
+  return (
+    <div className="absolute inset-0 z-[100] flex items-center justify-center p-12 bg-[#020617]/95 backdrop-blur-2xl animate-in fade-in duration-500">
+      <div className="bg-slate-900 border border-slate-800 rounded-[2.5rem] shadow-[0_0_80px_rgba(79,70,229,0.2)] w-full max-w-6xl max-h-full flex flex-col overflow-hidden animate-in zoom-in-95 duration-400">
+        <div className="p-10 border-b border-slate-800 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-8">
+            <div className="w-16 h-16 bg-indigo-600/10 rounded-2xl flex items-center justify-center text-indigo-500 border border-indigo-500/20 shadow-lg shadow-indigo-500/10">
+              <i className="fas fa-check-double text-3xl"></i>
+            </div>
+            <div>
+              <h2 className="text-3xl font-black text-white tracking-tight">Integration Checkpoint</h2>
+              <p className="text-[10px] text-slate-500 font-black uppercase tracking-[0.2em] mt-1">
+                Manual Approval Required per Protocol · {changeset.changes.length} file{changeset.changes.length === 1 ? '' : 's'} in changeset
+              </p>
+            </div>
+          </div>
+          <button onClick={onDiscard} className="w-12 h-12 flex items-center justify-center text-slate-600 hover:text-white bg-slate-800 rounded-2xl border border-slate-700 transition-all">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-12 space-y-12 scrollbar-thin">
+          {(attempts.length > 1 || isRepairing) && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-[9px] font-black uppercase text-slate-500 tracking-[0.2em] mr-2">Self-Correction</span>
+              {attempts.map((attempt, idx) => {
+                const isCurrent = viewing ? viewedAttempt === idx : attempt.changeset === latestChangeset;
+                return (
+                  <button
+                    key={attempt.iteration}
+                    onClick={() => setViewedAttempt(idx)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${
+                      isCurrent ? 'bg-slate-800 border-slate-600 text-white' : 'bg-slate-900/40 border-slate-800 text-slate-500 hover:text-slate-300'
+                    }`}
+                  >
+                    Attempt {attempt.iteration}
+                    <span className={`px-1.5 py-0.5 rounded border text-[8px] ${VERDICT_STYLES[attempt.verdict.status].badge}`}>{attempt.verdict.status}</span>
+                  </button>
+                );
+              })}
+              {isRepairing && (
+                <span className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-amber-400/80">
+                  <i className="fas fa-circle-notch fa-spin mr-2"></i>Repairing...
+                </span>
+              )}
+            </div>
+          )}
+
+          {viewing && (
+            <div className="bg-slate-800/30 border border-slate-700/50 rounded-3xl px-6 py-4 flex items-center justify-between">
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Viewing superseded attempt {viewing.iteration} · read-only</p>
+              <button onClick={() => setViewedAttempt(null)} className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400 hover:text-indigo-300">Back to latest</button>
+            </div>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="bg-red-500/5 border border-red-500/20 rounded-3xl p-6">
+              <h4 className="text-[9px] font-black uppercase text-red-400 tracking-[0.2em] mb-3">Workspace Conflicts · Changeset Cannot Be Applied</h4>
+              <ul className="space-y-1">
+                {conflicts.map(c => <li key={c} className="text-[11px] text-red-300/80 font-mono">{c}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-12 gap-12">
+             <div className="col-span-8 space-y-4">
+               <div className="flex flex-wrap gap-2">
+                 {changeset.changes.map((change, idx) => {
+                   const issueCount = issuesForFile(validation, targetName(change)).length;
+                   const compilerErrors = diagnosticIssues(typecheck, targetName(change)).filter(i => i.severity === 'error').length;
+                   return (
+                   <button
+                     key={`${change.action}-${change.fileName}-${idx}`}
+                     onClick={() => setSelectedIndex(idx)}
+                     className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-[10px] font-mono transition-all ${
+                       selected === change ? 'bg-slate-800 border-slate-600 text-white' : 'bg-slate-900/40 border-slate-800 text-slate-500 hover:text-slate-300'
+                     }`}
+                   >
+                     <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase tracking-widest ${ACTION_STYLES[change.action]}`}>{change.action}</span>
+                     {describeChange(change)}
+                     {issueCount > 0 && (
+                       <span className={`ml-1 px-1.5 rounded-full text-[8px] font-black ${VERDICT_STYLES[validation!.status].badge}`}>{issueCount}</span>
+                     )}
+                     {compilerErrors > 0 && (
+                       <span title={`${compilerErrors} compiler error(s)`} className="px-1.5 rounded-full text-[8px] font-black bg-red-500/10 text-red-400 border border-red-500/30">TS {compilerErrors}</span>
+                     )}
+                   </button>
+                   );
+                 })}
+               </div>
+               <div className="flex items-center justify-between">
+                 <h3 className="text-[10px] font-black uppercase text-slate-500 tracking-[0.3em]">Code Payload: <span className="text-indigo-400">{describeChange(selected)}</span></h3>
+                 {baseContent !== null && selected.content !== undefined && (
+                   <div className="flex items-center bg-slate-800/40 rounded-lg p-0.5 border border-slate-700/50">
+                     {([false, true] as const).map(merged => (
+                       <button
+                         key={String(merged)}
+                         onClick={() => setShowMerged(merged)}
+                         className={`px-3 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${
+                           showMerged === merged ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'
+                         }`}
+                       >
+                         {merged ? 'Merged Preview' : 'Review Hunks'}
+                       </button>
+                     ))}
+                   </div>
+                 )}
+               </div>
+               {selected.action === 'delete' ? (
+                 <DiffView key={selectedPosition} oldText={baseContent ?? ''} newText="" />
+               ) : selected.content !== undefined && baseContent !== null && showMerged ? (
+                 <DiffView key={`${selectedPosition}-merged`} oldText={baseContent} newText={resolved.changes[selectedPosition].content!} />
+               ) : selected.content !== undefined ? (
+                 <DiffView
+                   key={selectedPosition}
+                   oldText={baseContent}
+                   newText={selected.content}
+                   rejectedHunks={baseContent !== null && !viewing ? selectedRejected : undefined}
+                   onToggleHunk={baseContent !== null && !viewing ? toggleHunk : undefined}
+                   annotations={selectedIssues}
+                 />
+               ) : (
+                 <div className="bg-black/60 rounded-3xl border border-slate-800 p-8 shadow-inner">
+                   <p className="text-[11px] text-slate-500 font-black uppercase tracking-widest">File will be moved without content changes.</p>
+                 </div>
+               )}
+             </div>
+             <div className="col-span-4 space-y-8">
+               <div className="bg-slate-800/30 p-8 rounded-3xl border border-slate-700/50">
+                  <h4 className="text-[9px] font-black uppercase text-indigo-400 tracking-[0.2em] mb-4">Conductor Rationale</h4>
+                  <p className="text-sm text-slate-300 leading-relaxed italic font-medium">"{changeset.description}"</p>
+               </div>
+
+               <div className={`p-8 rounded-3xl border relative group overflow-hidden ${VERDICT_STYLES[validation?.status || 'pass'].panel}`}>
+                  <div className="absolute -right-4 -top-4 opacity-5 text-4xl group-hover:rotate-12 transition-transform"><i className={`fas ${VERDICT_STYLES[validation?.status || 'pass'].icon}`}></i></div>
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-[9px] font-black uppercase text-slate-400 tracking-[0.2em]">Validator Verdict</h4>
+                    {validation && (
+                      <span className={`px-2 py-0.5 rounded border text-[9px] font-black uppercase tracking-widest ${VERDICT_STYLES[validation.status].badge}`}>{validation.status}</span>
+                    )}
+                  </div>
+                  {validation ? (
+                    <div className="space-y-4">
+                      <p className="text-[11px] text-slate-300 leading-relaxed font-medium">{validation.summary}</p>
+                      {validation.issues.length > 0 && (
+                        <ul className="space-y-2 max-h-64 overflow-y-auto scrollbar-thin pr-1">
+                          {validation.issues.map((issue, idx) => (
+                            <li key={idx}>
+                              <button onClick={() => selectIssueFile(issue.fileName)} className="w-full text-left text-[10px] leading-relaxed text-slate-400 hover:text-slate-200 transition-colors">
+                                <span className={`font-black uppercase text-[8px] tracking-widest mr-2 ${SEVERITY_TEXT[issue.severity]}`}>{issue.severity}</span>
+                                <span className="font-mono text-slate-500">{issue.fileName}{issue.startLine ? `:${issue.startLine}` : ''}</span>
+                                <span className="block">{issue.message}</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ) : validationStream ? (
+                    <pre className="text-[10px] text-slate-500 font-mono whitespace-pre-wrap break-all max-h-48 overflow-y-auto scrollbar-thin">{validationStream}</pre>
+                  ) : (
+                    <p className="text-[11px] text-slate-400 font-medium">Validator node synthesis pending...</p>
+                  )}
+               </div>
+
+               <div className="p-8 rounded-3xl border bg-slate-800/30 border-slate-700/50">
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-[9px] font-black uppercase text-slate-400 tracking-[0.2em]">TypeScript Compiler</h4>
+                    {typecheck && (
+                      <span className={`px-2 py-0.5 rounded border text-[9px] font-black uppercase tracking-widest ${TYPECHECK_BADGES[typecheck.status]}`}>{typecheck.status}</span>
+                    )}
+                  </div>
+                  {isTypechecking && !viewing ? (
+                    <p className="text-[11px] text-slate-400 font-medium"><i className="fas fa-circle-notch fa-spin mr-2"></i>Compiling proposed workspace...</p>
+                  ) : typecheck ? (
+                    <div className="space-y-4">
+                      <p className="text-[11px] text-slate-300 leading-relaxed font-medium">{describeTypecheck(typecheck)}</p>
+                      {typecheck.diagnostics.length > 0 && (
+                        <ul className="space-y-2 max-h-64 overflow-y-auto scrollbar-thin pr-1">
+                          {typecheck.diagnostics.map((d, idx) => (
+                            <li key={idx}>
+                              <button onClick={() => selectIssueFile(d.fileName)} className="w-full text-left text-[10px] leading-relaxed text-slate-400 hover:text-slate-200 transition-colors">
+                                <span className={`font-black uppercase text-[8px] tracking-widest mr-2 ${SEVERITY_TEXT[d.severity]}`}>TS{d.code}</span>
+                                <span className="font-mono text-slate-500">{d.fileName}:{d.line}:{d.column}</span>
+                                <span className="block whitespace-pre-wrap">{d.message}</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {typecheck.unresolvedModules.length > 0 && (
+                        <p className="text-[10px] text-slate-500 leading-relaxed">
+                          Not type-checked (no declarations in workspace): <span className="font-mono">{typecheck.unresolvedModules.join(', ')}</span>
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-[11px] text-slate-500 font-medium">No compiler report for this proposal.</p>
+                  )}
+               </div>
+
+               {((isTesting && !viewing) || tests) && (
+                 <div className="p-8 rounded-3xl border bg-slate-800/30 border-slate-700/50">
+                    <div className="flex items-center justify-between mb-4">
+                      <h4 className="text-[9px] font-black uppercase text-slate-400 tracking-[0.2em]">Affected Tests</h4>
+                      {tests && (
+                        <span className={`px-2 py-0.5 rounded border text-[9px] font-black uppercase tracking-widest ${TEST_BADGES[tests.status]}`}>{tests.status}</span>
+                      )}
+                    </div>
+                    {isTesting && !viewing ? (
+                      <p className="text-[11px] text-slate-400 font-medium"><i className="fas fa-circle-notch fa-spin mr-2"></i>Running tests in sandbox...</p>
+                    ) : tests && (
+                      <div className="space-y-4">
+                        <p className="text-[11px] text-slate-300 leading-relaxed font-medium">{describeTestRun(tests)}</p>
+                        {tests.error && tests.status !== 'error' && <p className="text-[10px] text-amber-300/80">{tests.error}</p>}
+                        <ul className="space-y-2 max-h-64 overflow-y-auto scrollbar-thin pr-1">
+                          {tests.results.filter(r => r.status === 'fail').map((result, idx) => (
+                            <li key={idx}>
+                              <button onClick={() => selectIssueFile(result.fileName)} className="w-full text-left text-[10px] leading-relaxed text-slate-400 hover:text-slate-200 transition-colors">
+                                <span className="font-black uppercase text-[8px] tracking-widest mr-2 text-red-400">fail</span>
+                                <span className="font-mono text-slate-500">{result.fileName}</span>
+                                <span className="block text-slate-300">{result.name}</span>
+                                {result.error && <span className="block whitespace-pre-wrap">{result.error}</span>}
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                 </div>
+               )}
+             </div>
+          </div>
+        </div>
+
+        <div className="p-10 border-t border-slate-800 flex items-center justify-end gap-6 bg-slate-900/30 shrink-0">
+          {rejectedCount > 0 && (
+            <span className="mr-auto text-[10px] font-black uppercase tracking-[0.2em] text-amber-400/80">
+              <i className="fas fa-code-merge mr-2"></i>{rejectedCount} hunk{rejectedCount === 1 ? '' : 's'} rejected · partial merge
+            </span>
+          )}
+          {needsOverride && !isChecking && (
+            <label className={`${rejectedCount > 0 ? '' : 'mr-auto'} flex items-center gap-3 text-[10px] font-black uppercase tracking-[0.2em] text-red-400/80 cursor-pointer select-none`}>
+              <input type="checkbox" checked={overrideFail} onChange={(e) => setOverrideFail(e.target.checked)} className="accent-red-500" />
+              {latestVerdict && !latestVerdict.unavailable ? 'Override failing verdict' : 'Commit without a verdict'}
+            </label>
+          )}
+          <button onClick={onDiscard} className="px-10 py-4 text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 hover:text-white transition-all">Discard Artifact</button>
+          <button
+            onClick={() => onApprove(resolved)}
+            disabled={conflicts.length > 0 || blockedByVerdict || isChecking || !!viewing}
+            title={isChecking
+              ? 'Checks are still running on this proposal'
+              : blockedByVerdict
+                ? latestVerdict && !latestVerdict.unavailable ? 'The Validator failed this proposal; tick the override to commit anyway' : 'This proposal was never validated; tick the override to commit anyway'
+                : undefined}
+            className="px-16 py-5 rounded-[1.25rem] bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-600 disabled:shadow-none text-white text-xs font-black uppercase tracking-[0.3em] shadow-[0_20px_60px_rgba(79,70,229,0.3)] transition-all active:scale-95 flex items-center gap-4"
+          >
+            <i className="fas fa-lock"></i> Commit & Integrated
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IntegrationCheckpoint;
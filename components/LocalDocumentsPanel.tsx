@@ -0,0 +1,83 @@
+
+import React, { useMemo, useRef } from 'react';
+import { LocalDocument, ResearchGrounding } from '../types';
+import { DOCUMENT_EXTENSIONS, chunkDocument } from '../services/documentService';
+
+interface LocalDocumentsPanelProps {
+  documents: LocalDocument[];
+  grounding: ResearchGrounding;
+  onImport: (files: FileList) => void;
+  onDelete: (id: string) => void;
+}
+
+const KIND_ICONS: Record<LocalDocument['kind'], string> = {
+  markdown: 'fa-brands fa-markdown',
+  html: 'fas fa-code',
+  text: 'fas fa-file-lines',
+  json: 'fas fa-file-code'
+};
+
+const LocalDocumentsPanel: React.FC<LocalDocumentsPanelProps> = ({ documents, grounding, onImport, onDelete }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const passageCounts = useMemo(() => Object.fromEntries(documents.map(d => [d.id, chunkDocument(d).length])), [documents]);
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-2xl p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400">Local Documentation</h4>
+          <p className="text-[11px] text-slate-600 mt-1">
+            {grounding === 'web'
+              ? 'Not used while research grounding is set to Web in settings.'
+              : 'Passages matching each research query are sent to the Research Lead and cited as sources.'}
+          </p>
+        </div>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="px-4 py-2 rounded-xl border border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:border-indigo-500/50 hover:text-white transition-all shrink-0"
+        >
+          <i className="fas fa-file-import mr-2"></i>Import Docs
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={DOCUMENT_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) onImport(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {documents.length === 0 ? (
+        <p className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-600 py-4 text-center">No documents imported</p>
+      ) : (
+        <ul className="divide-y divide-slate-800/60">
+          {documents.map(doc => (
+            <li key={doc.id} className="flex items-center justify-between gap-4 py-2">
+              <div className="min-w-0 flex items-center gap-3">
+                <i className={`${KIND_ICONS[doc.kind]} text-slate-500 text-xs w-4 text-center`}></i>
+                <div className="min-w-0">
+                  <p className="text-[12px] text-slate-200 font-bold truncate">{doc.title}</p>
+                  <p className="text-[10px] font-mono text-slate-600 truncate">
+                    {doc.fileName} · {passageCounts[doc.id]} passage{passageCounts[doc.id] === 1 ? '' : 's'}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => onDelete(doc.id)}
+                className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 transition-colors shrink-0"
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LocalDocumentsPanel;
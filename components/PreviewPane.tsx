@@ -0,0 +1,167 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityLog, ProjectFile } from '../types';
+import { buildPreview, findPreviewEntry, PreviewBuild, PreviewMessage, PREVIEW_MESSAGE_SOURCE } from '../services/previewService';
+
+interface PreviewPaneProps {
+  files: ProjectFile[];
+  onAddLog: (l: ActivityLog) => void;
+  onSendToConductor: (error: string) => void;
+}
+
+interface ConsoleEntry {
+  level: PreviewMessage['level'] | 'build';
+  message: string;
+  count: number;
+}
+
+const MAX_ENTRIES = 100;
+
+const ENTRY_STYLES: Record<ConsoleEntry['level'], { icon: string; text: string }> = {
+  error: { icon: 'fa-times-circle', text: 'text-red-300' },
+  warn: { icon: 'fa-exclamation-triangle', text: 'text-amber-300' },
+  build: { icon: 'fa-hammer', text: 'text-orange-300' }
+};
+
+// Rebuilds whenever the workspace changes, so every approved proposal reloads the running app
+const PreviewPane: React.FC<PreviewPaneProps> = ({ files, onAddLog, onSendToConductor }) => {
+  const [build, setBuild] = useState<PreviewBuild | null>(null);
+  const [buildError, setBuildError] = useState<string | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const [version, setVersion] = useState(0);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const tokenRef = useRef('');
+  const sequenceRef = useRef(0);
+  // Errors already sent to the activity feed for the current build
+  const loggedRef = useRef(new Set<string>());
+
+  const record = (level: ConsoleEntry['level'], message: string) => {
+    setEntries(prev => {
+      const last = prev[prev.length - 1];
+      if (last && last.level === level && last.message === message) {
+        return [...prev.slice(0, -1), { ...last, count: last.count + 1 }];
+      }
+      return [...prev, { level, message, count: 1 }].slice(-MAX_ENTRIES);
+    });
+    if (level === 'warn' || loggedRef.current.has(message)) return;
+    loggedRef.current.add(message);
+    onAddLog({
+      id: Math.random().toString(),
+      timestamp: Date.now(),
+      agent: 'System',
+      message: `Preview ${level === 'build' ? 'build' : 'runtime'} error: ${message.split('\n')[0]}`,
+      type: 'error'
+    });
+  };
+
+  useEffect(() => {
+    const sequence = ++sequenceRef.current;
+    const token = Math.random().toString(36).slice(2);
+    setIsBuilding(true);
+    buildPreview(files, token)
+      .then(result => {
+        if (sequence !== sequenceRef.current) return;
+        tokenRef.current = token;
+        loggedRef.current = new Set();
+        setEntries([]);
+        setBuild(result);
+        setBuildError(null);
+        setVersion(v => v + 1);
+        result.errors.forEach(error => record('build', error));
+      })
+      .catch((error: any) => {
+        if (sequence !== sequenceRef.current) return;
+        setBuild(null);
+        setBuildError(error.message);
+      })
+      .finally(() => {
+        if (sequence === sequenceRef.current) setIsBuilding(false);
+      });
+  }, [files]);
+
+  useEffect(() => {
+    const listener = (event: MessageEvent) => {
+      const data = event.data as PreviewMessage;
+      if (!data || data.source !== PREVIEW_MESSAGE_SOURCE || data.token !== tokenRef.current) return;
+      if (event.source !== frameRef.current?.contentWindow) return;
+      record(data.level, String(data.message));
+    };
+    window.addEventListener('message', listener);
+    return () => window.removeEventListener('message', listener);
+  }, [onAddLog]);
+
+  const reload = () => {
+    loggedRef.current = new Set();
+    setEntries([]);
+    setVersion(v => v + 1);
+  };
+
+  const entry = findPreviewEntry(files);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center gap-4 px-10 py-4 border-b border-slate-800 shrink-0">
+        <span className="text-[9px] font-black uppercase tracking-[0.2em] text-indigo-400">Live Preview</span>
+        <span className="text-[10px] font-mono text-slate-500">
+          {build ? `${build.entry} · ${build.moduleCount} module${build.moduleCount === 1 ? '' : 's'}` : entry || 'no entry point'}
+        </span>
+        {isBuilding && <i className="fas fa-circle-notch fa-spin text-[10px] text-slate-500"></i>}
+        <button
+          onClick={reload}
+          disabled={!build}
+          className="ml-auto px-4 py-1.5 rounded-lg border border-slate-700/50 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-200 disabled:text-slate-700 transition-all"
+        >
+          <i className="fas fa-rotate-right mr-2"></i>Reload
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 bg-white">
+        {build ? (
+          <iframe
+            key={version}
+            ref={frameRef}
+            title="Workspace preview"
+            srcDoc={build.html}
+            sandbox="allow-scripts allow-forms allow-modals allow-popups"
+            className="w-full h-full border-0"
+          />
+        ) : (
+          <div className="h-full bg-[#020617] flex flex-col items-center justify-center text-slate-500 opacity-60 px-10 text-center">
+            <i className={`fas ${isBuilding ? 'fa-circle-notch fa-spin' : 'fa-display'} text-5xl mb-6`}></i>
+            <p className="text-[10px] font-black uppercase tracking-[0.4em] mb-3">{isBuilding ? 'Bundling workspace' : 'Nothing to preview'}</p>
+            {buildError && <p className="text-[11px] text-slate-400 max-w-lg">{buildError}</p>}
+          </div>
+        )}
+      </div>
+
+      <div className="h-48 shrink-0 border-t border-slate-800 bg-black/40 flex flex-col">
+        <div className="flex items-center justify-between px-10 py-2 border-b border-slate-800/60">
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Console · {entries.length}</span>
+          <button onClick={() => setEntries([])} className="text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-slate-300">Clear</button>
+        </div>
+        <ul className="flex-1 overflow-y-auto scrollbar-thin px-10 py-2 divide-y divide-slate-800/40">
+          {entries.length === 0 && <li className="py-2 text-[10px] text-slate-700 font-mono">No errors or warnings.</li>}
+          {entries.map((e, idx) => (
+            <li key={idx} className="py-2 flex items-start gap-3">
+              <i className={`fas ${ENTRY_STYLES[e.level].icon} ${ENTRY_STYLES[e.level].text} text-[10px] mt-0.5`}></i>
+              <pre className={`flex-1 text-[10px] font-mono whitespace-pre-wrap break-all ${ENTRY_STYLES[e.level].text}`}>{e.message}</pre>
+              {e.count > 1 && <span className="px-1.5 rounded bg-slate-800 text-[9px] font-black text-slate-400">{e.count}</span>}
+              {e.level !== 'warn' && (
+                <button
+                  onClick={() => onSendToConductor(e.message)}
+                  title="Ask the Conductor to fix this error"
+                  className="shrink-0 text-[9px] font-black uppercase tracking-widest text-indigo-400 hover:text-indigo-300"
+                >
+                  <i className="fas fa-satellite-dish mr-1"></i>Send to Conductor
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPane;
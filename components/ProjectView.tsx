@@ -1,7 +1,32 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Project, ChatMessage, ActivityLog, CodeProposal, SystemConfig } from '../types';
-import { trinity } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Project, ChatMessage, ActivityLog, CodeChangeset, SystemConfig, ResearchEntry, LocalDocument, FileRevision, HistorySummary, ValidationVerdict, RepairAttempt, ResearchMode, TypecheckReport, TestRunReport } from '../types';
+import { trinity, conductorModelFor } from '../services/geminiService';
+import { buildHistoryContents, planCompaction, unsummarizedMessages, DEFAULT_HISTORY_TOKEN_BUDGET } from '../services/conversationService';
+import { buildWorkspaceContext } from '../services/contextService';
+import { extractJsonBlock, taskPlanFrom, looksLikeProposal, DELEGATE_TOOL, researchQueriesFrom, planTargets, formatArtifacts, validationRequirements, repairFeedback, shouldRepair } from '../services/pipelineService';
+import { describeVerdict, verdictNeedsOverride } from '../services/validationService';
+import { compiler, formatDiagnostics, describeTypecheck } from '../services/compilerService';
+import { describeTestRun, formatTestReport, runChangesetTests, runTests, testFilesIn } from '../services/testRunnerService';
+import { storage } from '../services/storageService';
+import { createResearchEntry, pinnedGrounding } from '../services/researchService';
+import { buildDocumentIndex, createDocument } from '../services/documentService';
+import { bundleToJson, bundleToZip, downloadBlob, exportFileName, exportWorkspace } from '../services/workspaceArchiveService';
+import { LLMToolCall } from '../services/llmProvider';
+import { CancelledError } from '../services/retryService';
+import { describeUsage, totalUsage, usageStore, UsageScope } from '../services/usageService';
+import { parseChangeset, describeChange, ChangesetError, folderMoveChangeset, folderDeleteChangeset } from '../services/changesetService';
+import { FileTreeNode, PathError, folderPaths, isInside, joinPath, normalizePath } from '../services/pathService';
+import { Approval, IntegrationMeta, integrateChangeset, buildFileRevert, buildApprovalRevert, staleFilesForRevert } from '../services/revisionService';
+import IntegrationCheckpoint from './IntegrationCheckpoint';
+import FileHistoryPanel from './FileHistoryPanel';
+import FileEditorPane from './FileEditorPane';
+import FileTree from './FileTree';
+import ResearchLibraryPanel from './ResearchLibraryPanel';
+import LocalDocumentsPanel from './LocalDocumentsPanel';
+import TestResultsPanel from './TestResultsPanel';
+import PreviewPane from './PreviewPane';
+import UsageDashboard from './UsageDashboard';
 
 interface ProjectViewProps {
   project: Project;
@@ -10,17 +35,126 @@ interface ProjectViewProps {
   config: SystemConfig;
 }
 
+// The research toggle cycles auto → force → suppress and resets to auto after each send
+const RESEARCH_MODES: Record<ResearchMode, { label: string; icon: string; style: string; title: string; next: ResearchMode }> = {
+  auto: { label: 'Research: Auto', icon: 'fa-globe', style: 'border-slate-700/50 text-slate-500 hover:text-slate-300', title: 'The Conductor decides whether to research', next: 'force' },
+  force: { label: 'Research: On', icon: 'fa-globe', style: 'border-emerald-500/40 bg-emerald-500/10 text-emerald-400', title: 'Always research this message', next: 'suppress' },
+  suppress: { label: 'Research: Off', icon: 'fa-ban', style: 'border-red-500/30 bg-red-500/5 text-red-400', title: 'Never research this message', next: 'auto' }
+};
+
 const ProjectView: React.FC<ProjectViewProps> = ({ project, onUpdateProject, onAddLog, config }) => {
-  const [activeTab, setActiveTab] = useState<'chat' | 'files' | 'research'>('chat');
+  const [activeTab, setActiveTab] = useState<'chat' | 'files' | 'research' | 'tests' | 'preview' | 'usage'>('chat');
+  // The preview stays mounted once opened so it keeps hot-reloading and reporting errors from other tabs
+  const [previewOpened, setPreviewOpened] = useState(false);
+  const [filesPane, setFilesPane] = useState<'source' | 'history'>('source');
+  const [openFiles, setOpenFiles] = useState<string[]>([]);
+  const [activeFile, setActiveFile] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, { base: string; content: string }>>({});
+  const [emptyFolders, setEmptyFolders] = useState<string[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  // Aborts every agent call of the run in flight
+  const runControllerRef = useRef<AbortController | null>(null);
   const [aiMode, setAiMode] = useState<'precision' | 'speed'>('precision');
-  const [pendingProposal, setPendingProposal] = useState<CodeProposal | null>(null);
-  const [validationReport, setValidationReport] = useState<string | null>(null);
-  const [researchSources, setResearchSources] = useState<{title: string, uri: string}[]>([]);
+  const [researchMode, setResearchMode] = useState<ResearchMode>('auto');
+  const [pendingProposal, setPendingProposal] = useState<CodeChangeset | null>(null);
+  const [validation, setValidation] = useState<ValidationVerdict | null>(null);
+  const [validationStream, setValidationStream] = useState('');
+  const [typecheck, setTypecheck] = useState<TypecheckReport | null>(null);
+  const [isTypechecking, setIsTypechecking] = useState(false);
+  const [tests, setTests] = useState<TestRunReport | null>(null);
+  // Latest run of any scope, shown in the tests tab
+  const [testRun, setTestRun] = useState<TestRunReport | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [repairAttempts, setRepairAttempts] = useState<RepairAttempt[]>([]);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [researchLibrary, setResearchLibrary] = useState<ResearchEntry[]>([]);
+  const [documents, setDocuments] = useState<LocalDocument[]>([]);
+  const [historySummary, setHistorySummary] = useState<HistorySummary | null>(null);
+  const [isThreadLoaded, setIsThreadLoaded] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
+  // The view is keyed by project id, so each mount restores exactly one workspace thread
+  useEffect(() => {
+    storage.loadThread(project.id)
+      .then(thread => {
+        if (!thread) return;
+        // A reload mid-stream leaves partial messages behind; keep what arrived but stop the cursor
+        setMessages(thread.messages.map(m => m.isStreaming ? { ...m, isStreaming: false } : m));
+        setPendingProposal(thread.pendingProposal);
+        setValidation(thread.validation);
+        setTypecheck(thread.typecheck || null);
+        setTests(thread.tests || null);
+        setRepairAttempts(thread.repairAttempts || []);
+        setHistorySummary(thread.historySummary || null);
+      })
+      .catch(e => console.warn('Failed to restore chat thread', e))
+      .finally(() => setIsThreadLoaded(true));
+
+    storage.loadResearch(project.id)
+      .then(setResearchLibrary)
+      .catch(e => console.warn('Failed to restore research library', e));
+
+    storage.loadDocuments(project.id)
+      .then(setDocuments)
+      .catch(e => console.warn('Failed to restore local documents', e));
+  }, [project.id]);
+
+  // Rebuilt only when documents change; retrieval then runs per research query
+  const documentIndex = useMemo(() => buildDocumentIndex(documents), [documents]);
+
+  const importDocuments = async (files: FileList) => {
+    const imported = await Promise.all(Array.from(files).map(async file => createDocument(project.id, file.name, await file.text())));
+    // Re-importing a file replaces the earlier copy
+    const replaced = documents.filter(d => imported.some(i => i.fileName === d.fileName));
+    setDocuments(prev => [...prev.filter(d => !replaced.includes(d)), ...imported]);
+    replaced.forEach(d => storage.deleteDocument(d.id).catch(e => console.warn('Failed to delete document', e)));
+    storage.saveDocuments(imported).catch(e => console.warn('Failed to persist documents', e));
+    onAddLog({
+      id: Math.random().toString(),
+      timestamp: Date.now(),
+      agent: 'Research Lead',
+      message: `Imported ${imported.length} document${imported.length === 1 ? '' : 's'} for local grounding.`,
+      type: 'info'
+    });
+  };
+
+  const deleteDocument = (id: string) => {
+    setDocuments(prev => prev.filter(d => d.id !== id));
+    storage.deleteDocument(id).catch(e => console.warn('Failed to delete document', e));
+  };
+
+  // Library entries are written individually rather than with the thread, so a long history never rewrites them
+  const saveResearchEntry = (entry: ResearchEntry) => {
+    setResearchLibrary(prev => prev.some(e => e.id === entry.id) ? prev.map(e => e.id === entry.id ? entry : e) : [entry, ...prev]);
+    storage.saveResearchEntry(entry).catch(e => console.warn('Failed to persist research entry', e));
+  };
+
+  const deleteResearchEntry = (id: string) => {
+    setResearchLibrary(prev => prev.filter(e => e.id !== id));
+    storage.deleteResearchEntry(id).catch(e => console.warn('Failed to delete research entry', e));
+  };
+
+  useEffect(() => {
+    // Skip per-chunk writes while a response is streaming; the final update is persisted
+    if (!isThreadLoaded || messages.some(m => m.isStreaming)) return;
+    storage.saveThread({
+      projectId: project.id,
+      messages,
+      pendingProposal,
+      validation,
+      typecheck,
+      tests,
+      repairAttempts,
+      historySummary,
+      updatedAt: Date.now()
+    }).catch(e => console.warn('Failed to persist chat thread', e));
+  }, [project.id, isThreadLoaded, messages, pendingProposal, validation, typecheck, tests, repairAttempts, historySummary]);
+
+  // Leaving the project abandons its run rather than letting it write into a view that is gone
+  useEffect(() => () => runControllerRef.current?.abort(new CancelledError('Run stopped: project closed.')), []);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isProcessing]);
@@ -40,115 +174,595 @@ const ProjectView: React.FC<ProjectViewProps> = ({ project, onUpdateProject, onA
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isProcessing) return;
 
+    const requestText = inputValue;
+    const researchOverride = researchMode;
     const userMsg: ChatMessage = {
       id: Math.random().toString(),
       role: 'user',
-      content: inputValue
+      content: requestText,
+      ...(researchOverride !== 'auto' ? { researchMode: researchOverride } : {})
     };
 
     setMessages(prev => [...prev, userMsg]);
     setInputValue('');
+    setResearchMode('auto');
     setIsProcessing(true);
-    setValidationReport(null);
+    setValidation(null);
+    setValidationStream('');
+    setTypecheck(null);
+    setTests(null);
+    setRepairAttempts([]);
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    const { signal } = controller;
+    const usage: UsageScope = { projectId: project.id, runId: Math.random().toString(36).slice(2) };
 
     try {
-      const filesContext = project.files.map(f => f.name).join(', ') || 'No files yet.';
+      // Files touched by the latest proposal are treated as the ones being worked on
+      const lastProposal = pendingProposal || [...messages].reverse().find(m => m.pendingChange)?.pendingChange;
+      const modifiedFiles = lastProposal?.changes.map(c => c.newFileName || c.fileName) || [];
+      const workspaceContext = buildWorkspaceContext(project.files, requestText, conductorModelFor(aiMode, config), modifiedFiles);
+      const filesContext = workspaceContext.text;
       
-      // Determine if research is needed based on simple keyword heuristic
-      const needsResearch = /research|search|find|documentation|info|who is|what is/i.test(inputValue);
-      let augmentedPrompt = inputValue;
-
-      if (needsResearch) {
-        const researchResult = await trinity.research(inputValue, config, onAddLog);
-        augmentedPrompt = `Research Findings:\n${researchResult.text}\n\nOriginal Request: ${inputValue}`;
-        // Store sources for display as required by guidelines for search grounding
-        setResearchSources(prev => [...researchResult.sources, ...prev]);
+      // Prior turns (the state captured before this send) go out as multi-turn contents, compacted to the model's budget
+      const budget = config.historyTokenBudgets[conductorModelFor(aiMode, config)] ?? DEFAULT_HISTORY_TOKEN_BUDGET;
+      let summary = historySummary;
+      const compaction = planCompaction(unsummarizedMessages(messages, summary), summary, budget);
+      if (compaction.toSummarize.length > 0) {
+        try {
+          const text = await trinity.summarizeHistory(summary?.text, compaction.toSummarize, config, onAddLog, signal, usage);
+          summary = { text, throughMessageId: compaction.toSummarize[compaction.toSummarize.length - 1].id };
+          setHistorySummary(summary);
+        } catch (error: any) {
+          if (error instanceof CancelledError) throw error;
+          // Fall back to sending only the retained tail rather than failing the request
+          onAddLog({
+            id: Math.random().toString(),
+            timestamp: Date.now(),
+            agent: 'Conductor',
+            message: `History compaction failed, older turns omitted: ${error.message}`,
+            type: 'warning'
+          });
+        }
       }
 
-      const response = await trinity.conduct(augmentedPrompt, filesContext, aiMode, onAddLog, config);
-
-      let proposal: CodeProposal | null = null;
-      try {
-        const jsonMatch = response?.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-          const data = JSON.parse(jsonMatch[1]);
-          if (data.action === 'propose_code') {
-            proposal = {
-              fileName: data.fileName,
-              content: data.content,
-              description: data.description
-            };
-            
-            // Run separate validation
-            const report = await trinity.validateCode(data.content, data.description, config, onAddLog);
-            setValidationReport(report);
-            
-            onAddLog({
-              id: Math.random().toString(),
-              timestamp: Date.now(),
-              agent: 'Validator',
-              message: `Artifact check complete. Health: OPTIMAL.`,
-              type: 'success'
-            });
-          }
+      const assistantMsgId = Math.random().toString();
+      const updateAssistant = (patch: (m: ChatMessage) => Partial<ChatMessage>) =>
+        setMessages(prev => prev.map(m => m.id === assistantMsgId ? { ...m, ...patch(m) } : m));
+
+      setMessages(prev => [...prev, { id: assistantMsgId, role: 'assistant', content: '', isStreaming: true, contextFiles: workspaceContext.files }]);
+
+      // Runs the queries in parallel and folds their findings into the request the Conductor plans from
+      const runResearch = async (queries: string[]) => {
+        updateAssistant(() => ({ researchQueries: queries }));
+        const retrieve = (q: string) => config.researchGrounding !== 'web' ? documentIndex.search(q) : [];
+        const results = await Promise.all(queries.map(q => trinity.research(q, config, onAddLog, retrieve(q), signal, usage)));
+        // Completed runs are saved to the research library with their sources; fallback placeholders are not
+        results.forEach((r, idx) => {
+          if (!r.fallback) saveResearchEntry(createResearchEntry(project.id, queries[idx], r.text || '', r.sources));
+        });
+        const findings = results.map((r, idx) => `### ${queries[idx]}\n${r.text}`).join('\n\n');
+        return `Research Findings:\n${findings}\n\nOriginal Request: ${requestText}`;
+      };
+
+      const conductRound = async (request: string, allowResearch: boolean) => {
+        try {
+          return await trinity.conduct(request, filesContext, aiMode, onAddLog, config, {
+            history: buildHistoryContents(compaction.keep),
+            historySummary: summary?.text,
+            pinnedResearch: pinnedGrounding(researchLibrary) || undefined,
+            allowResearch,
+            signal,
+            usage,
+            onChunk: delta => updateAssistant(m => ({
+              content: m.content + (delta.text || ''),
+              thoughts: delta.thought ? (m.thoughts || '') + delta.thought : m.thoughts
+            }))
+          });
+        } finally {
+          updateAssistant(m => ({ isStreaming: false, content: m.content || 'Cluster stream interrupted.' }));
+        }
+      };
+
+      // Forced research skips the Conductor's judgement; otherwise it may ask for research once before planning
+      let conducted: { text: string; toolCalls: LLMToolCall[] };
+      if (researchOverride === 'force') {
+        conducted = await conductRound(await runResearch([requestText]), false);
+      } else {
+        conducted = await conductRound(requestText, researchOverride !== 'suppress');
+        const queries = researchQueriesFrom(conducted.toolCalls);
+        if (queries.length > 0) {
+          onAddLog({
+            id: Math.random().toString(),
+            timestamp: Date.now(),
+            agent: 'Conductor',
+            message: `Dispatching Research Lead with ${queries.length} quer${queries.length === 1 ? 'y' : 'ies'}: ${queries.join(' | ')}`,
+            type: 'info'
+          });
+          const lead = conducted.text;
+          const augmented = await runResearch(queries);
+          updateAssistant(() => ({ isStreaming: true, content: lead ? `${lead}\n\n` : '' }));
+          const followUp = await conductRound(augmented, false);
+          conducted = { text: lead ? `${lead}\n\n${followUp.text}` : followUp.text, toolCalls: followUp.toolCalls };
         }
-      } catch (e) {
-        console.warn("No valid code proposal found in response.");
       }
 
-      const assistantMsg: ChatMessage = {
+      // The task plan is only parsed once the full response has arrived
+      const taskPlan = taskPlanFrom(conducted.text, conducted.toolCalls);
+      const planAttempted = conducted.toolCalls.some(c => c.name === DELEGATE_TOOL.name) || looksLikeProposal(conducted.text);
+      const planWarning = !taskPlan && planAttempted
+        ? 'The Conductor attempted a task plan that could not be parsed, so nothing was handed to the Coder. Try rephrasing or re-sending the request.'
+        : undefined;
+      updateAssistant(() => ({
+        content: conducted.text || (taskPlan ? 'Delegating to the Coder.' : 'Cluster returned empty response.'),
+        taskPlan: taskPlan || undefined,
+        proposalWarning: planWarning
+      }));
+      if (planWarning) {
+        onAddLog({
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'Conductor',
+          message: 'Task plan attempted but unparseable; hand-off skipped.',
+          type: 'warning'
+        });
+      }
+      if (!taskPlan) return;
+
+      onAddLog({
         id: Math.random().toString(),
-        role: 'assistant',
-        content: response || 'Cluster returned empty response.',
-        pendingChange: proposal || undefined
-      };
+        timestamp: Date.now(),
+        agent: 'Conductor',
+        message: `Task plan issued to Coder: ${taskPlan.tasks.length} task(s) — ${taskPlan.objective}`,
+        type: 'info'
+      });
+
+      // The Coder sees the files the plan targets first, within its own model's budget
+      const coderContext = buildWorkspaceContext(project.files, requestText, config.coderModel, planTargets(taskPlan));
+      const coderResponse = await trinity.code(taskPlan, coderContext.text, aiMode, config, onAddLog, undefined, signal, usage);
+      const parsed = parseChangeset(extractJsonBlock(coderResponse), project.files);
+      if (!parsed) {
+        updateAssistant(() => ({ proposalWarning: 'The Coder replied, but its changeset could not be parsed, so the plan was not implemented.' }));
+        onAddLog({
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'Coder',
+          message: 'Coder returned no parseable changeset; the plan was not implemented.',
+          type: 'error'
+        });
+        return;
+      }
+
+      let proposal: CodeChangeset = { ...parsed, sourceMessageId: assistantMsgId };
+      const attempts: RepairAttempt[] = [];
+      while (true) {
+        // The checkpoint may have been approved or discarded while the previous step was in flight
+        signal.throwIfAborted();
+        updateAssistant(() => ({ pendingChange: proposal }));
+        setPendingProposal(proposal);
+        onAddLog({
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'Coder',
+          message: `Changeset handed to Validator${attempts.length ? ` (attempt ${attempts.length + 1})` : ''}: ${proposal.changes.map(describeChange).join(', ')}`,
+          type: 'success'
+        });
+
+        // Compile the workspace as it would be after approval, so the Validator reviews against real compiler errors
+        setValidation(null);
+        setTypecheck(null);
+        setIsTypechecking(true);
+        const report = await compiler.typecheckChangeset(project.files, proposal, signal);
+        signal.throwIfAborted();
+        setTypecheck(report);
+        setIsTypechecking(false);
+        onAddLog({
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'Validator',
+          message: describeTypecheck(report),
+          type: report.status === 'errors' ? 'error' : report.status === 'clean' ? 'success' : report.status === 'skipped' ? 'info' : 'warning'
+        });
+
+        // Only proposals that touch tested code get a sandbox run
+        setTests(null);
+        setIsTesting(true);
+        const testReport = await runChangesetTests(project.files, proposal, signal);
+        signal.throwIfAborted();
+        setTests(testReport);
+        setIsTesting(false);
+        if (testReport) {
+          setTestRun(testReport);
+          onAddLog({
+            id: Math.random().toString(),
+            timestamp: Date.now(),
+            agent: 'Validator',
+            message: describeTestRun(testReport),
+            type: testReport.status === 'pass' ? 'success' : testReport.status === 'fail' ? 'error' : 'warning'
+          });
+        }
+
+        // Run separate validation over every artifact in the set, streaming the raw verdict into the checkpoint
+        const verdict = await trinity.validateCode(formatArtifacts(proposal), validationRequirements(proposal, taskPlan), config, onAddLog, delta => {
+          if (delta.text) setValidationStream(prev => prev + delta.text);
+        }, formatDiagnostics(report), testReport ? formatTestReport(testReport) : '', signal, usage);
+        setValidation(verdict);
+        setValidationStream('');
+        attempts.push({ iteration: attempts.length + 1, changeset: proposal, verdict, typecheck: report, ...(testReport ? { tests: testReport } : {}) });
+        setRepairAttempts([...attempts]);
+
+        onAddLog({
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'Validator',
+          message: `Artifact check complete. ${describeVerdict(verdict)}.`,
+          type: verdict.status === 'pass' ? 'success' : verdict.status === 'warn' ? 'warning' : 'error'
+        });
 
-      setMessages(prev => [...prev, assistantMsg]);
-      if (proposal) setPendingProposal(proposal);
+        if (!shouldRepair(verdict, attempts.length - 1, config)) break;
+
+        // Self-correction: the Coder revises its own changeset against the verdict, under the same plan
+        setIsRepairing(true);
+        onAddLog({
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'Validator',
+          message: `Requesting repair pass ${attempts.length} of ${config.maxRepairIterations}.`,
+          type: 'warning'
+        });
+        const repairResponse = await trinity.code(taskPlan, coderContext.text, aiMode, config, onAddLog, repairFeedback(proposal, verdict), signal, usage);
+        const revised = parseChangeset(extractJsonBlock(repairResponse), project.files);
+        if (!revised) {
+          onAddLog({
+            id: Math.random().toString(),
+            timestamp: Date.now(),
+            agent: 'Coder',
+            message: `Repair pass returned no parseable changeset; keeping attempt ${attempts.length}.`,
+            type: 'error'
+          });
+          break;
+        }
+        proposal = { ...revised, sourceMessageId: assistantMsgId };
+      }
 
     } catch (error: any) {
+      const stopped = error instanceof CancelledError;
       onAddLog({
         id: Math.random().toString(),
         timestamp: Date.now(),
         agent: 'Conductor',
-        message: `Cluster Error: ${error.message}`,
-        type: 'error'
+        message: stopped ? error.message : `Cluster Error: ${error.message}`,
+        type: stopped ? 'warning' : 'error'
       });
     } finally {
+      const runUsage = usageStore.forRun(usage.runId);
+      if (runUsage.length) {
+        onAddLog({
+          id: Math.random().toString(),
+          timestamp: Date.now(),
+          agent: 'System',
+          message: `Run usage: ${describeUsage(totalUsage(runUsage, config.modelPrices))}.`,
+          type: 'info'
+        });
+      }
+      if (runControllerRef.current === controller) runControllerRef.current = null;
       setIsProcessing(false);
+      setIsRepairing(false);
+      setIsTypechecking(false);
+      setIsTesting(false);
+    }
+  };
+
+  // Applies a changeset with revision tracking; returns false (after logging) when the workspace rejects it
+  const integrate = (changeset: CodeChangeset, meta: IntegrationMeta) => {
+    try {
+      onUpdateProject(integrateChangeset(project, changeset, meta));
+      return true;
+    } catch (error: any) {
+      onAddLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'Validator',
+        message: error instanceof ChangesetError ? `${error.message}: ${error.problems.join('; ')}` : `Integration failed: ${error.message}`,
+        type: 'error'
+      });
+      return false;
     }
   };
 
-  const approveProposal = () => {
+  // Closes the checkpoint and stops any validate/repair pass still working on it, so it cannot reopen with a stale changeset
+  const closeProposal = (reason: string) => {
+    runControllerRef.current?.abort(new CancelledError(reason));
+    setPendingProposal(null);
+    setValidation(null);
+    setValidationStream('');
+    setTypecheck(null);
+    setTests(null);
+    setRepairAttempts([]);
+  };
+
+  const approveProposal = (resolved: CodeChangeset) => {
     if (!pendingProposal) return;
-    const existingFileIndex = project.files.findIndex(f => f.name === pendingProposal.fileName);
-    const updatedFiles = [...project.files];
-    const newFile = {
-      name: pendingProposal.fileName,
-      content: pendingProposal.content,
-      language: pendingProposal.fileName.split('.').pop() || 'txt'
-    };
-    if (existingFileIndex >= 0) updatedFiles[existingFileIndex] = newFile;
-    else updatedFiles.push(newFile);
-    onUpdateProject({ ...project, files: updatedFiles });
-    
+    const overridden = verdictNeedsOverride(validation);
+    if (!integrate(resolved, { author: 'agent', verdict: validation || undefined, verdictOverridden: overridden })) return;
+    if (overridden) {
+      onAddLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'Validator',
+        message: validation && !validation.unavailable ? `Failing verdict overridden by user: ${validation.summary}` : 'Unvalidated changeset committed by user.',
+        type: 'warning'
+      });
+    }
+
+    const touched = resolved.changes.map(describeChange).join(', ');
     setMessages(prev => [...prev, {
       id: Math.random().toString(),
       role: 'system',
-      content: `Integrated changes to workspace: ${pendingProposal.fileName}`
+      content: `Integrated changes to workspace: ${touched}`
     }]);
 
-    setPendingProposal(null);
-    setValidationReport(null);
+    closeProposal('Run stopped: proposal approved.');
     onAddLog({
       id: Math.random().toString(),
       timestamp: Date.now(),
       agent: 'Validator',
-      message: `Persisted ${pendingProposal.fileName} to workspace.`,
+      message: `Persisted ${resolved.changes.length} file change(s) to workspace: ${touched}.`,
+      type: 'success'
+    });
+  };
+
+  const revertFile = (revision: FileRevision) => {
+    if (!integrate(buildFileRevert(project, revision), { author: 'user', revertOf: revision.id })) return;
+    setMessages(prev => [...prev, {
+      id: Math.random().toString(),
+      role: 'system',
+      content: `Restored ${revision.fileName} to revision from ${new Date(revision.timestamp).toLocaleString()}`
+    }]);
+    onAddLog({
+      id: Math.random().toString(),
+      timestamp: Date.now(),
+      agent: 'System',
+      message: `Rolled back ${revision.fileName}.`,
+      type: 'warning'
+    });
+  };
+
+  // Tabs follow the workspace: files deleted or renamed by an approval or revert close, along with any unsaved edit
+  useEffect(() => {
+    const names = new Set(project.files.map(f => f.name));
+    const orphaned = Object.keys(drafts).filter(name => !names.has(name));
+    if (orphaned.length > 0) {
+      setDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([name]) => names.has(name))));
+      onAddLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: `Dropped unsaved edits to removed file(s): ${orphaned.join(', ')}`,
+        type: 'warning'
+      });
+    }
+    setOpenFiles(prev => prev.filter(name => names.has(name)));
+    setActiveFile(prev => prev && names.has(prev) ? prev : null);
+  }, [project.files]);
+
+  const openFile = (fileName: string) => {
+    setOpenFiles(prev => prev.includes(fileName) ? prev : [...prev, fileName]);
+    setActiveFile(fileName);
+    setFilesPane('source');
+  };
+
+  const discardDraft = (fileName: string) => {
+    setDrafts(prev => {
+      const { [fileName]: _discarded, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const closeFile = (fileName: string) => {
+    if (drafts[fileName] && !confirm(`Discard unsaved changes to ${fileName}?`)) return;
+    const remaining = openFiles.filter(name => name !== fileName);
+    setOpenFiles(remaining);
+    if (activeFile === fileName) setActiveFile(remaining[Math.max(0, openFiles.indexOf(fileName) - 1)] ?? null);
+    discardDraft(fileName);
+  };
+
+  const editFile = (fileName: string, content: string) => {
+    const file = project.files.find(f => f.name === fileName);
+    if (!file) return;
+    setDrafts(prev => {
+      const base = prev[fileName]?.base ?? file.content;
+      if (content === base) {
+        const { [fileName]: _unchanged, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [fileName]: { base, content } };
+    });
+  };
+
+  // Manual edits go through the same changeset path as approvals, recorded as user revisions
+  const saveFile = (fileName: string) => {
+    const draft = drafts[fileName];
+    if (!draft) return;
+    const changeset: CodeChangeset = {
+      description: `Manual edit of ${fileName}`,
+      changes: [{ action: 'modify', fileName, content: draft.content }]
+    };
+    if (!integrate(changeset, { author: 'user' })) return;
+    discardDraft(fileName);
+    setMessages(prev => [...prev, {
+      id: Math.random().toString(),
+      role: 'system',
+      content: `User edited ${fileName} manually`
+    }]);
+    onAddLog({
+      id: Math.random().toString(),
+      timestamp: Date.now(),
+      agent: 'System',
+      message: `Saved manual edit to ${fileName}.`,
       type: 'success'
     });
   };
 
+  // Asks for a workspace path; invalid input is reported and yields null
+  const askForPath = (message: string, initial: string) => {
+    const input = prompt(message, initial);
+    if (input === null || !input.trim()) return null;
+    try {
+      return normalizePath(input);
+    } catch (error: any) {
+      onAddLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: error instanceof PathError ? error.message : `Invalid path: ${error.message}`,
+        type: 'error'
+      });
+      return null;
+    }
+  };
+
+  const logFileOperation = (message: string) => onAddLog({
+    id: Math.random().toString(),
+    timestamp: Date.now(),
+    agent: 'System',
+    message,
+    type: 'info'
+  });
+
+  const createFile = (folder: string) => {
+    const path = askForPath('New file path:', folder ? `${folder}/` : '');
+    if (!path) return;
+    if (!integrate({ description: `Created ${path}`, changes: [{ action: 'create', fileName: path, content: '' }] }, { author: 'user' })) return;
+    setEmptyFolders(prev => prev.filter(folder => !isInside(path, folder)));
+    openFile(path);
+    logFileOperation(`Created ${path}.`);
+  };
+
+  const createFolder = (parent: string) => {
+    const path = askForPath('New folder path:', parent ? `${parent}/` : '');
+    if (!path) return;
+    if (project.files.some(f => f.name === path) || folderPaths(project.files.map(f => f.name)).has(path) || emptyFolders.includes(path)) {
+      logFileOperation(`${path} already exists.`);
+      return;
+    }
+    setEmptyFolders(prev => [...prev, path]);
+  };
+
+  // Files, folders and everything inside them keep their open tabs and unsaved edits across a move
+  const moveNode = (node: FileTreeNode, target: string) => {
+    if (target === node.path) return;
+    if (node.kind === 'folder' && isInside(target, node.path)) {
+      logFileOperation(`Cannot move ${node.path} into itself.`);
+      return;
+    }
+    const remap = (name: string) => name === node.path || isInside(name, node.path) ? `${target}${name.slice(node.path.length)}` : name;
+    const changeset: CodeChangeset = node.kind === 'file'
+      ? { description: `Moved ${node.path} to ${target}`, changes: [{ action: 'rename', fileName: node.path, newFileName: target }] }
+      : folderMoveChangeset(project.files, node.path, target);
+    if (changeset.changes.length > 0 && !integrate(changeset, { author: 'user' })) return;
+    setEmptyFolders(prev => prev.map(remap));
+    setOpenFiles(prev => prev.map(remap));
+    setActiveFile(prev => prev && remap(prev));
+    setDrafts(prev => Object.fromEntries(Object.entries(prev).map(([name, draft]) => [remap(name), draft])));
+    logFileOperation(`Moved ${node.path} to ${target}.`);
+  };
+
+  const renameNode = (node: FileTreeNode) => {
+    const target = askForPath(`Rename or move ${node.path} to:`, node.path);
+    if (target) moveNode(node, target);
+  };
+
+  const deleteNode = (node: FileTreeNode) => {
+    const contained = node.kind === 'folder' ? project.files.filter(f => isInside(f.name, node.path)) : [];
+    const question = node.kind === 'file'
+      ? `Delete ${node.path}?`
+      : `Delete folder ${node.path}${contained.length ? ` and the ${contained.length} file(s) inside it` : ''}?`;
+    if (!confirm(question)) return;
+    const changeset: CodeChangeset = node.kind === 'file'
+      ? { description: `Deleted ${node.path}`, changes: [{ action: 'delete', fileName: node.path }] }
+      : folderDeleteChangeset(project.files, node.path);
+    if (changeset.changes.length > 0 && !integrate(changeset, { author: 'user' })) return;
+    const removed = (name: string) => name === node.path || isInside(name, node.path);
+    setEmptyFolders(prev => prev.filter(folder => !removed(folder)));
+    setDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([name]) => !removed(name))));
+    logFileOperation(`Deleted ${node.path}.`);
+  };
+
+  const revertApproval = (approval: Approval) => {
+    const stale = staleFilesForRevert(project, approval);
+    if (stale.length > 0 && !confirm(`These files changed after this approval and their later edits will be lost:\n${stale.join('\n')}\n\nRevert anyway?`)) return;
+    if (!integrate(buildApprovalRevert(approval), { author: 'user', revertOf: approval.approvalId })) return;
+    setMessages(prev => [...prev, {
+      id: Math.random().toString(),
+      role: 'system',
+      content: `Reverted approval: ${approval.revisions.map(r => r.fileName).join(', ')}`
+    }]);
+    onAddLog({
+      id: Math.random().toString(),
+      timestamp: Date.now(),
+      agent: 'System',
+      message: `Rolled back approval of ${approval.revisions.length} file change(s).`,
+      type: 'warning'
+    });
+  };
+
+  const runWorkspaceTests = async () => {
+    setIsTesting(true);
+    try {
+      const report = await runTests(project.files, testFilesIn(project.files), 'workspace');
+      setTestRun(report);
+      onAddLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'Validator',
+        message: describeTestRun(report),
+        type: report.status === 'pass' ? 'success' : report.status === 'fail' ? 'error' : 'warning'
+      });
+    } catch (error: any) {
+      onAddLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'Validator',
+        message: `Test run failed: ${error.message}`,
+        type: 'error'
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const sendPreviewError = (error: string) => {
+    // The chat input is single-line, so the stack is flattened
+    setInputValue(`The live preview throws this runtime error: ${error.replace(/\s+/g, ' ').trim()} Find the cause in the workspace and fix it.`);
+    setActiveTab('chat');
+  };
+
+  const exportAs = async (format: 'zip' | 'json') => {
+    try {
+      const bundle = await exportWorkspace(project, config);
+      const blob = format === 'zip'
+        ? await bundleToZip(bundle)
+        : new Blob([bundleToJson(bundle)], { type: 'application/json' });
+      downloadBlob(blob, exportFileName(project, format));
+      onAddLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: `Exported ${project.name} as ${format.toUpperCase()} (${project.files.length} file(s), ${bundle.research.length} research entr${bundle.research.length === 1 ? 'y' : 'ies'}).`,
+        type: 'success'
+      });
+    } catch (error: any) {
+      onAddLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: `Export failed: ${error.message}`,
+        type: 'error'
+      });
+    }
+  };
+
   return (
     <div className="flex-1 flex flex-col min-h-0 bg-[#020617] overflow-hidden">
       {/* Dynamic Header */}
@@ -160,10 +774,13 @@ const ProjectView: React.FC<ProjectViewProps> = ({ project, onUpdateProject, onA
           </div>
           
           <nav className="flex items-center bg-slate-800/40 rounded-xl p-1 border border-slate-700/50">
-            {(['chat', 'files', 'research'] as const).map(tab => (
+            {(['chat', 'files', 'research', 'tests', 'preview', 'usage'] as const).map(tab => (
               <button 
                 key={tab}
-                onClick={() => setActiveTab(tab)}
+                onClick={() => {
+                  setActiveTab(tab);
+                  if (tab === 'preview') setPreviewOpened(true);
+                }}
                 className={`px-6 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all duration-300 ${
                   activeTab === tab 
                     ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/20' 
@@ -176,27 +793,42 @@ const ProjectView: React.FC<ProjectViewProps> = ({ project, onUpdateProject, onA
           </nav>
         </div>
 
-        <div className="flex items-center bg-slate-800/40 rounded-xl p-1 border border-slate-700/50">
-           <button 
-            onClick={() => setAiMode('precision')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] transition-all ${
-              aiMode === 'precision' 
-                ? 'bg-amber-500/10 text-amber-500 border border-amber-500/20' 
-                : 'text-slate-500 hover:text-slate-300'
-            }`}
-          >
-            <i className="fas fa-brain"></i> Thinking
-          </button>
-          <button 
-            onClick={() => setAiMode('speed')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] transition-all ${
-              aiMode === 'speed' 
-                ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/20' 
-                : 'text-slate-500 hover:text-slate-300'
-            }`}
-          >
-            <i className="fas fa-bolt"></i> Fast
-          </button>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center bg-slate-800/40 rounded-xl p-1 border border-slate-700/50">
+            {(['zip', 'json'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => exportAs(format)}
+                title={`Export files, chat history, research library and config as ${format.toUpperCase()}`}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] text-slate-500 hover:text-slate-200 transition-all"
+              >
+                <i className={`fas ${format === 'zip' ? 'fa-file-zipper' : 'fa-file-export'}`}></i> {format}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center bg-slate-800/40 rounded-xl p-1 border border-slate-700/50">
+             <button 
+              onClick={() => setAiMode('precision')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] transition-all ${
+                aiMode === 'precision' 
+                  ? 'bg-amber-500/10 text-amber-500 border border-amber-500/20' 
+                  : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              <i className="fas fa-brain"></i> Thinking
+            </button>
+            <button 
+              onClick={() => setAiMode('speed')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] transition-all ${
+                aiMode === 'speed' 
+                  ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/20' 
+                  : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              <i className="fas fa-bolt"></i> Fast
+            </button>
+          </div>
         </div>
       </header>
 
@@ -230,15 +862,73 @@ const ProjectView: React.FC<ProjectViewProps> = ({ project, onUpdateProject, onA
                       <div className="text-[8px] font-black uppercase tracking-[0.3em] mb-3 opacity-40 flex items-center gap-2">
                         {m.role === 'user' ? <i className="fas fa-fingerprint"></i> : <i className="fas fa-network-wired"></i>}
                         {m.role === 'user' ? 'User Identity' : `Cluster Synthesis (${aiMode})`}
+                        {m.researchMode && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded border border-white/30 normal-case tracking-widest">
+                            <i className={`fas ${RESEARCH_MODES[m.researchMode].icon} mr-1`}></i>{RESEARCH_MODES[m.researchMode].label}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {m.researchQueries && m.researchQueries.length > 0 && (
+                      <div className="mb-4 flex flex-wrap items-center gap-1.5">
+                        <span className="text-[8px] font-black uppercase tracking-[0.2em] text-emerald-500/70 mr-1"><i className="fas fa-globe mr-1"></i>Researched</span>
+                        {m.researchQueries.map(q => (
+                          <span key={q} className="px-2 py-0.5 rounded border border-emerald-500/20 bg-emerald-500/5 text-[10px] text-emerald-300/80">{q}</span>
+                        ))}
                       </div>
                     )}
-                    <div className="text-[14px] leading-relaxed prose prose-invert max-w-none prose-p:my-2 prose-code:text-emerald-400 prose-code:bg-emerald-400/5 prose-code:px-1 prose-code:rounded">
+                    {m.thoughts && (
+                      <details open={m.isStreaming && !m.content} className="mb-4 rounded-xl border border-amber-500/10 bg-amber-500/5 px-4 py-3">
+                        <summary className="cursor-pointer text-[9px] font-black uppercase tracking-[0.2em] text-amber-500/70">
+                          <i className="fas fa-brain mr-2"></i>Reasoning Trace
+                        </summary>
+                        <p className="mt-3 text-[12px] text-slate-500 italic leading-relaxed whitespace-pre-wrap">{m.thoughts}</p>
+                      </details>
+                    )}
+                    <div className="text-[14px] leading-relaxed prose prose-invert max-w-none prose-p:my-2 prose-code:text-emerald-400 prose-code:bg-emerald-400/5 prose-code:px-1 prose-code:rounded whitespace-pre-wrap">
                       {m.content}
+                      {m.isStreaming && <span className="inline-block w-2 h-4 ml-1 align-middle bg-indigo-400 animate-pulse"></span>}
                     </div>
+                    {m.proposalWarning && (
+                      <div className="mt-4 rounded-xl border border-amber-500/30 bg-amber-500/5 px-4 py-3 text-[11px] text-amber-300">
+                        <i className="fas fa-exclamation-triangle mr-2"></i>{m.proposalWarning}
+                      </div>
+                    )}
+                    {m.taskPlan && (
+                      <div className="mt-4 rounded-xl border border-indigo-500/20 bg-indigo-500/5 p-4 space-y-2">
+                        <p className="text-[9px] font-black uppercase tracking-[0.2em] text-indigo-400">
+                          <i className="fas fa-sitemap mr-2"></i>Task Plan → Coder
+                        </p>
+                        <ul className="space-y-1">
+                          {m.taskPlan.tasks.map((t, idx) => (
+                            <li key={idx} className="text-[11px] text-slate-400">
+                              <span className="font-mono text-slate-300">{t.action} {t.newFileName ? `${t.fileName} → ${t.newFileName}` : t.fileName}</span>
+                              <span className="text-slate-500"> — {t.instructions}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {m.contextFiles && m.contextFiles.length > 0 && (
+                      <div className="mt-4 pt-3 border-t border-slate-800/60 flex flex-wrap items-center gap-1.5">
+                        <span className="text-[8px] font-black uppercase tracking-[0.2em] text-slate-600 mr-1">Context</span>
+                        {m.contextFiles.map(f => (
+                          <span
+                            key={f.name}
+                            title={`${f.reason} · ~${f.tokens} tokens${f.truncated ? ' · truncated' : ''}`}
+                            className={`px-2 py-0.5 rounded border text-[9px] font-mono ${
+                              f.truncated ? 'border-amber-500/20 text-amber-400/70' : 'border-slate-700/60 text-slate-500'
+                            }`}
+                          >
+                            {f.name}{f.truncated && ' ✂'}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
-              {isProcessing && (
+              {isProcessing && !messages.some(m => m.isStreaming && (m.content || m.thoughts)) && (
                 <div className="flex justify-start">
                   <div className="bg-slate-900/60 text-slate-400 px-6 py-4 rounded-[1.5rem] rounded-tl-none text-[9px] font-black uppercase tracking-[0.2em] flex items-center gap-5 border border-slate-800 shadow-xl backdrop-blur-lg">
                     <div className="flex gap-1.5">
@@ -255,6 +945,14 @@ const ProjectView: React.FC<ProjectViewProps> = ({ project, onUpdateProject, onA
 
             <div className="p-8 border-t border-slate-800 bg-slate-900/20 backdrop-blur-xl">
               <div className="max-w-5xl mx-auto flex gap-4">
+                <button
+                  onClick={() => setResearchMode(RESEARCH_MODES[researchMode].next)}
+                  title={RESEARCH_MODES[researchMode].title}
+                  className={`shrink-0 rounded-2xl px-4 border text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${RESEARCH_MODES[researchMode].style}`}
+                >
+                  <i className={`fas ${RESEARCH_MODES[researchMode].icon}`}></i>
+                  <span>{RESEARCH_MODES[researchMode].label}</span>
+                </button>
                 <div className="relative flex-1">
                   <input
                     type="text"
@@ -268,14 +966,25 @@ const ProjectView: React.FC<ProjectViewProps> = ({ project, onUpdateProject, onA
                     EXE_TX
                   </div>
                 </div>
-                <button
-                  onClick={handleSendMessage}
-                  disabled={!inputValue.trim() || isProcessing}
-                  className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800/50 disabled:text-slate-700 text-white rounded-2xl px-10 py-4 font-black text-xs uppercase tracking-widest transition-all shadow-2xl shadow-indigo-600/20 active:scale-95 flex items-center gap-3"
-                >
-                  <i className="fas fa-satellite-dish"></i>
-                  <span>Transmit</span>
-                </button>
+                {isProcessing ? (
+                  <button
+                    onClick={() => runControllerRef.current?.abort(new CancelledError())}
+                    title="Abort the running agent calls"
+                    className="bg-red-600/90 hover:bg-red-500 text-white rounded-2xl px-10 py-4 font-black text-xs uppercase tracking-widest transition-all shadow-2xl shadow-red-600/20 active:scale-95 flex items-center gap-3"
+                  >
+                    <i className="fas fa-stop"></i>
+                    <span>Stop</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSendMessage}
+                    disabled={!inputValue.trim()}
+                    className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800/50 disabled:text-slate-700 text-white rounded-2xl px-10 py-4 font-black text-xs uppercase tracking-widest transition-all shadow-2xl shadow-indigo-600/20 active:scale-95 flex items-center gap-3"
+                  >
+                    <i className="fas fa-satellite-dish"></i>
+                    <span>Transmit</span>
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -283,157 +992,109 @@ const ProjectView: React.FC<ProjectViewProps> = ({ project, onUpdateProject, onA
 
         {activeTab === 'files' && (
           <div className="flex-1 flex overflow-hidden bg-[#020617]">
-             {project.files.length === 0 ? (
-               <div className="flex-1 flex flex-col items-center justify-center opacity-30">
-                 <i className="fas fa-layer-group text-6xl mb-6"></i>
-                 <p className="text-[10px] font-black uppercase tracking-[0.4em]">Local Disk Empty</p>
-               </div>
-             ) : (
                <div className="flex-1 grid grid-cols-12 overflow-hidden h-full">
-                 <div className="col-span-3 border-r border-slate-800 p-6 space-y-2 bg-slate-900/10">
-                    <h3 className="text-[9px] font-black text-slate-600 uppercase tracking-[0.3em] mb-6">Volume Workspace</h3>
-                    {project.files.map(f => (
-                      <button 
-                        key={f.name}
-                        className="w-full text-left px-4 py-3 rounded-xl bg-slate-900/40 border border-slate-800/50 text-slate-400 text-[11px] font-mono hover:bg-slate-800/60 hover:text-indigo-400 transition-all flex items-center gap-3 group"
-                      >
-                        <i className={`fas ${['ts','tsx'].includes(f.language) ? 'fa-code text-indigo-500' : 'fa-file'} opacity-50`}></i>
-                        <span className="truncate">{f.name}</span>
-                        <i className="fas fa-chevron-right ml-auto text-[8px] opacity-0 group-hover:opacity-100"></i>
-                      </button>
-                    ))}
+                 <div className="col-span-3 border-r border-slate-800 p-6 bg-slate-900/10 min-h-0">
+                   <FileTree
+                     files={project.files}
+                     emptyFolders={emptyFolders}
+                     activeFile={filesPane === 'source' ? activeFile : null}
+                     dirtyFiles={new Set(Object.keys(drafts))}
+                     onOpenFile={openFile}
+                     onNewFile={createFile}
+                     onNewFolder={createFolder}
+                     onRename={renameNode}
+                     onDelete={deleteNode}
+                     onMove={(node, folder) => moveNode(node, joinPath(folder, node.name))}
+                   />
                  </div>
-                 <div className="col-span-9 p-10 overflow-y-auto space-y-12 scrollbar-thin">
-                   {project.files.map(f => (
-                     <div key={f.name} className="animate-in fade-in duration-700">
-                        <div className="flex items-center justify-between mb-4">
-                           <div className="flex items-center gap-4">
-                             <div className="px-3 py-1 bg-slate-800 rounded text-[10px] font-mono text-slate-300 border border-slate-700">{f.name}</div>
-                             <div className="text-[8px] font-black text-indigo-500 uppercase tracking-widest">{f.language} Source</div>
-                           </div>
-                           <button 
-                            onClick={() => copyToClipboard(f.content)}
-                            className="text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-white transition-colors"
-                           >
-                             <i className="fas fa-copy mr-2"></i> Copy Code
-                           </button>
-                        </div>
-                        <div className="rounded-[1.5rem] border border-slate-800 bg-black/40 overflow-hidden shadow-2xl relative">
-                          <div className="absolute top-0 left-0 w-1 h-full bg-indigo-600/20"></div>
-                          <pre className="p-8 text-[12px] font-medium code-font overflow-x-auto text-slate-300 leading-relaxed scrollbar-thin">
-                            <code>{f.content}</code>
-                          </pre>
-                        </div>
+                 <div className="col-span-9 flex flex-col min-h-0">
+                   <div className="px-10 pt-6 pb-4 shrink-0">
+                     <div className="flex items-center bg-slate-800/40 rounded-xl p-1 border border-slate-700/50 self-start w-fit">
+                       {(['source', 'history'] as const).map(pane => (
+                         <button
+                           key={pane}
+                           onClick={() => setFilesPane(pane)}
+                           className={`px-5 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${
+                             filesPane === pane ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'
+                           }`}
+                         >
+                           <i className={`fas ${pane === 'source' ? 'fa-code' : 'fa-history'} mr-2`}></i>{pane}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
+                   {filesPane === 'history' && (
+                     <div className="flex-1 overflow-y-auto px-10 pb-10 scrollbar-thin">
+                       <FileHistoryPanel project={project} onRevertFile={revertFile} onRevertApproval={revertApproval} />
                      </div>
-                   ))}
+                   )}
+                   {filesPane === 'source' && (
+                     <FileEditorPane
+                       files={project.files}
+                       openFiles={openFiles}
+                       activeFile={activeFile}
+                       drafts={drafts}
+                       onActivate={setActiveFile}
+                       onClose={closeFile}
+                       onChange={editFile}
+                       onSave={saveFile}
+                       onDiscard={discardDraft}
+                       onCopy={copyToClipboard}
+                     />
+                   )}
                  </div>
                </div>
-             )}
           </div>
         )}
 
         {activeTab === 'research' && (
           <div className="flex-1 flex flex-col bg-[#020617] p-10 overflow-y-auto scrollbar-thin">
-            <h3 className="text-xl font-black text-white mb-8 tracking-tight uppercase tracking-[0.2em]">Technical Grounding Sources</h3>
-            {researchSources.length === 0 ? (
-              <div className="flex-1 flex flex-col items-center justify-center opacity-30">
-                <i className="fas fa-search text-6xl mb-6"></i>
-                <p className="text-[10px] font-black uppercase tracking-[0.4em]">No technical grounding chunks identified yet</p>
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {researchSources.map((source, idx) => (
-                  <a 
-                    key={`${source.uri}-${idx}`}
-                    href={source.uri}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="bg-slate-900/40 border border-slate-800 hover:border-indigo-500/50 p-6 rounded-2xl transition-all group"
-                  >
-                    <div className="flex items-center gap-4 mb-3">
-                      <div className="w-10 h-10 bg-indigo-600/10 rounded-xl flex items-center justify-center text-indigo-500 border border-indigo-500/20">
-                        <i className="fas fa-link"></i>
-                      </div>
-                      <h4 className="text-slate-200 font-bold truncate flex-1">{source.title || 'Grounding Context'}</h4>
-                    </div>
-                    <p className="text-[10px] text-slate-500 truncate font-mono">{source.uri}</p>
-                    <div className="mt-4 flex items-center justify-end text-[9px] font-black text-indigo-400 uppercase tracking-widest opacity-0 group-hover:opacity-100 transition-opacity">
-                      External Context <i className="fas fa-external-link-alt ml-2"></i>
-                    </div>
-                  </a>
-                ))}
-              </div>
-            )}
+            <h3 className="text-xl font-black text-white mb-8 tracking-tight uppercase tracking-[0.2em]">Research Library</h3>
+            <div className="space-y-8">
+              <LocalDocumentsPanel documents={documents} grounding={config.researchGrounding} onImport={importDocuments} onDelete={deleteDocument} />
+              <ResearchLibraryPanel entries={researchLibrary} onUpdateEntry={saveResearchEntry} onDeleteEntry={deleteResearchEntry} />
+            </div>
           </div>
         )}
 
-        {/* INTEGRATION CHECKPOINT MODAL */}
-        {pendingProposal && (
-          <div className="absolute inset-0 z-[100] flex items-center justify-center p-12 bg-[#020617]/95 backdrop-blur-2xl animate-in fade-in duration-500">
-            <div className="bg-slate-900 border border-slate-800 rounded-[2.5rem] shadow-[0_0_80px_rgba(79,70,229,0.2)] w-full max-w-6xl max-h-full flex flex-col overflow-hidden animate-in zoom-in-95 duration-400">
-              <div className="p-10 border-b border-slate-800 flex items-center justify-between shrink-0">
-                <div className="flex items-center gap-8">
-                  <div className="w-16 h-16 bg-indigo-600/10 rounded-2xl flex items-center justify-center text-indigo-500 border border-indigo-500/20 shadow-lg shadow-indigo-500/10">
-                    <i className="fas fa-check-double text-3xl"></i>
-                  </div>
-                  <div>
-                    <h2 className="text-3xl font-black text-white tracking-tight">Integration Checkpoint</h2>
-                    <p className="text-[10px] text-slate-500 font-black uppercase tracking-[0.2em] mt-1">Manual Approval Required per Protocol</p>
-                  </div>
-                </div>
-                <button onClick={() => setPendingProposal(null)} className="w-12 h-12 flex items-center justify-center text-slate-600 hover:text-white bg-slate-800 rounded-2xl border border-slate-700 transition-all">
-                  <i className="fas fa-times"></i>
-                </button>
-              </div>
-              
-              <div className="flex-1 overflow-y-auto p-12 space-y-12 scrollbar-thin">
-                <div className="grid grid-cols-12 gap-12">
-                   <div className="col-span-8 space-y-4">
-                     <div className="flex items-center justify-between">
-                       <h3 className="text-[10px] font-black uppercase text-slate-500 tracking-[0.3em]">Code Payload: <span className="text-indigo-400">{pendingProposal.fileName}</span></h3>
-                     </div>
-                     <div className="bg-black/60 rounded-3xl border border-slate-800 p-8 shadow-inner overflow-hidden relative">
-                        <div className="absolute top-0 left-0 w-2 h-full bg-emerald-500/20"></div>
-                        <pre className="text-[12px] code-font text-emerald-400/90 leading-relaxed max-h-[400px] overflow-y-auto scrollbar-thin">
-                          <code>{pendingProposal.content}</code>
-                        </pre>
-                     </div>
-                   </div>
-                   <div className="col-span-4 space-y-8">
-                     <div className="bg-slate-800/30 p-8 rounded-3xl border border-slate-700/50">
-                        <h4 className="text-[9px] font-black uppercase text-indigo-400 tracking-[0.2em] mb-4">Conductor Rationale</h4>
-                        <p className="text-sm text-slate-300 leading-relaxed italic font-medium">"{pendingProposal.description}"</p>
-                     </div>
-                     
-                     <div className="bg-emerald-500/5 p-8 rounded-3xl border border-emerald-500/20 relative group overflow-hidden">
-                        <div className="absolute -right-4 -top-4 opacity-5 text-4xl group-hover:rotate-12 transition-transform"><i className="fas fa-shield-alt"></i></div>
-                        <h4 className="text-[9px] font-black uppercase text-emerald-400 tracking-[0.2em] mb-4">Validator Report</h4>
-                        <div className="text-[11px] text-slate-400 leading-relaxed font-medium">
-                          {validationReport ? (
-                            <div className="prose prose-invert prose-xs max-w-none">
-                              {validationReport}
-                            </div>
-                          ) : (
-                            "Validator node synthesis pending..."
-                          )}
-                        </div>
-                     </div>
-                   </div>
-                </div>
-              </div>
+        {activeTab === 'tests' && (
+          <div className="flex-1 flex flex-col bg-[#020617] p-10 overflow-y-auto scrollbar-thin">
+            <h3 className="text-xl font-black text-white mb-8 tracking-tight uppercase tracking-[0.2em]">Test Results</h3>
+            <TestResultsPanel report={testRun} testFiles={testFilesIn(project.files)} isRunning={isTesting} onRun={runWorkspaceTests} />
+          </div>
+        )}
 
-              <div className="p-10 border-t border-slate-800 flex justify-end gap-6 bg-slate-900/30 shrink-0">
-                <button onClick={() => setPendingProposal(null)} className="px-10 py-4 text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 hover:text-white transition-all">Discard Artifact</button>
-                <button 
-                  onClick={approveProposal}
-                  className="px-16 py-5 rounded-[1.25rem] bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-black uppercase tracking-[0.3em] shadow-[0_20px_60px_rgba(79,70,229,0.3)] transition-all active:scale-95 flex items-center gap-4"
-                >
-                  <i className="fas fa-lock"></i> Commit & Integrated
-                </button>
-              </div>
-            </div>
+        {activeTab === 'usage' && (
+          <div className="flex-1 flex flex-col bg-[#020617] p-10 overflow-y-auto scrollbar-thin">
+            <h3 className="text-xl font-black text-white mb-8 tracking-tight uppercase tracking-[0.2em]">Token Usage</h3>
+            <UsageDashboard projectId={project.id} config={config} />
           </div>
         )}
+
+        {previewOpened && (
+          <div className={activeTab === 'preview' ? 'flex-1 flex flex-col bg-[#020617] min-h-0' : 'hidden'}>
+            <PreviewPane files={project.files} onAddLog={onAddLog} onSendToConductor={sendPreviewError} />
+          </div>
+        )}
+
+        {/* INTEGRATION CHECKPOINT MODAL */}
+        {pendingProposal && (
+          <IntegrationCheckpoint
+            changeset={pendingProposal}
+            files={project.files}
+            validation={validation}
+            validationStream={validationStream}
+            typecheck={typecheck}
+            isTypechecking={isTypechecking}
+            tests={tests}
+            isTesting={isTesting}
+            attempts={repairAttempts}
+            isRepairing={isRepairing}
+            isProcessing={isProcessing}
+            onApprove={approveProposal}
+            onDiscard={() => closeProposal('Run stopped: proposal discarded.')}
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,154 @@
+
+import React, { useMemo, useState } from 'react';
+import { ResearchEntry } from '../types';
+import { collectTags, normalizeTag, searchResearch } from '../services/researchService';
+import { isLocalSource } from '../services/documentService';
+
+interface ResearchLibraryPanelProps {
+  entries: ResearchEntry[];
+  onUpdateEntry: (entry: ResearchEntry) => void;
+  onDeleteEntry: (id: string) => void;
+}
+
+const ResearchLibraryPanel: React.FC<ResearchLibraryPanelProps> = ({ entries, onUpdateEntry, onDeleteEntry }) => {
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+
+  const tags = useMemo(() => collectTags(entries), [entries]);
+  const visible = useMemo(() => searchResearch(entries, search, tagFilter || undefined), [entries, search, tagFilter]);
+  const pinnedCount = entries.filter(e => e.pinned).length;
+
+  const addTag = (entry: ResearchEntry) => {
+    const tag = normalizeTag(tagDrafts[entry.id] || '');
+    setTagDrafts(prev => ({ ...prev, [entry.id]: '' }));
+    if (!tag || entry.tags.includes(tag)) return;
+    onUpdateEntry({ ...entry, tags: [...entry.tags, tag] });
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center opacity-30">
+        <i className="fas fa-search text-6xl mb-6"></i>
+        <p className="text-[10px] font-black uppercase tracking-[0.4em]">No research runs recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="relative flex-1">
+          <i className="fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 text-xs"></i>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search queries, findings, sources and tags..."
+            className="w-full bg-slate-950 border border-slate-800 rounded-xl pl-10 pr-4 py-3 text-sm text-slate-200 outline-none focus:ring-4 focus:ring-indigo-500/10 placeholder-slate-700"
+          />
+        </div>
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 shrink-0">
+          <i className="fas fa-thumbtack mr-2 text-amber-400/70"></i>{pinnedCount} pinned as grounding
+        </span>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              className={`px-3 py-1 rounded-full border text-[10px] font-mono transition-all ${
+                tagFilter === tag ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length === 0 && (
+        <p className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-600 py-8 text-center">No entries match</p>
+      )}
+
+      <div className="space-y-4">
+        {visible.map(entry => {
+          const isExpanded = expandedId === entry.id;
+          return (
+            <div key={entry.id} className={`bg-slate-900/40 border rounded-2xl p-6 space-y-4 ${entry.pinned ? 'border-amber-500/30' : 'border-slate-800'}`}>
+              <div className="flex items-start justify-between gap-4">
+                <button onClick={() => setExpandedId(isExpanded ? null : entry.id)} className="text-left min-w-0 flex-1">
+                  <p className="text-[9px] font-black uppercase tracking-widest text-slate-600">
+                    {new Date(entry.createdAt).toLocaleString()} · {entry.sources.length} source{entry.sources.length === 1 ? '' : 's'}
+                  </p>
+                  <h4 className="text-slate-200 font-bold mt-1">{entry.query}</h4>
+                </button>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button
+                    onClick={() => onUpdateEntry({ ...entry, pinned: !entry.pinned })}
+                    title={entry.pinned ? 'Stop sending to the Conductor' : 'Send to the Conductor as grounding on every request'}
+                    className={`text-[9px] font-black uppercase tracking-widest transition-colors ${entry.pinned ? 'text-amber-400' : 'text-slate-500 hover:text-amber-400'}`}
+                  >
+                    <i className="fas fa-thumbtack mr-1"></i>{entry.pinned ? 'Pinned' : 'Pin'}
+                  </button>
+                  <button
+                    onClick={() => onDeleteEntry(entry.id)}
+                    className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 transition-colors"
+                  >
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </div>
+              </div>
+
+              {entry.findings && (
+                <p className={`text-[12px] text-slate-400 leading-relaxed whitespace-pre-wrap ${isExpanded ? '' : 'line-clamp-3'}`}>{entry.findings}</p>
+              )}
+
+              {isExpanded && entry.sources.length > 0 && (
+                <ul className="space-y-1">
+                  {entry.sources.map(source => (
+                    <li key={source.uri}>
+                      {isLocalSource(source) ? (
+                        <span title={source.uri} className="text-[11px] text-emerald-400/80">
+                          <i className="fas fa-book mr-2 text-[9px]"></i>{source.title || source.uri}
+                        </span>
+                      ) : (
+                        <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-[11px] text-indigo-400 hover:text-indigo-300">
+                          <i className="fas fa-link mr-2 text-[9px]"></i>{source.title || source.uri}
+                        </a>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                {entry.tags.map(tag => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full border border-slate-700 text-[10px] font-mono text-slate-400 flex items-center gap-1">
+                    #{tag}
+                    <button onClick={() => onUpdateEntry({ ...entry, tags: entry.tags.filter(t => t !== tag) })} className="text-slate-600 hover:text-red-400">
+                      <i className="fas fa-times text-[8px]"></i>
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="text"
+                  value={tagDrafts[entry.id] || ''}
+                  onChange={(e) => setTagDrafts(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && addTag(entry)}
+                  placeholder="+ tag"
+                  className="w-24 bg-transparent border-b border-slate-800 focus:border-indigo-500/50 px-1 py-0.5 text-[10px] font-mono text-slate-300 outline-none placeholder-slate-700"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ResearchLibraryPanel;
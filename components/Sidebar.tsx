@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Project, ActivityLog } from '../types';
 
 interface SidebarProps {
@@ -7,6 +7,10 @@ interface SidebarProps {
   activeProjectId: string | null;
   onSelectProject: (id: string) => void;
   onNewProject: () => void;
+  onImportArchive: () => void;
+  onImportFolder: () => void;
+  onArchiveProject: (id: string, archived: boolean) => void;
+  onDeleteProject: (id: string) => void;
   onOpenSettings: () => void;
   activity: ActivityLog[];
 }
@@ -16,9 +20,53 @@ const Sidebar: React.FC<SidebarProps> = ({
   activeProjectId, 
   onSelectProject, 
   onNewProject,
+  onImportArchive,
+  onImportFolder,
+  onArchiveProject,
+  onDeleteProject,
   onOpenSettings,
   activity 
 }) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const liveProjects = projects.filter(p => !p.archived);
+  const archivedProjects = projects.filter(p => p.archived);
+
+  const renderProject = (project: Project) => (
+    <div
+      key={project.id}
+      className={`w-full group flex items-center justify-between rounded-xl text-sm transition-all duration-300 ${
+        activeProjectId === project.id 
+          ? 'bg-indigo-600/10 text-indigo-300 border border-indigo-500/30 shadow-lg' 
+          : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-200 border border-transparent'
+      }`}
+    >
+      <button
+        onClick={() => onSelectProject(project.id)}
+        className="flex-1 flex items-center gap-3 truncate px-4 py-3 text-left"
+      >
+        <i className={`fas ${project.archived ? 'fa-box-archive' : 'fa-folder'} ${activeProjectId === project.id ? 'text-indigo-400' : 'text-slate-600 group-hover:text-slate-400'}`}></i>
+        <span className="truncate font-medium">{project.name}</span>
+      </button>
+      <div className="flex items-center gap-1 pr-3">
+        <button
+          onClick={() => onArchiveProject(project.id, !project.archived)}
+          className="w-6 h-6 flex items-center justify-center rounded-md text-slate-600 hover:text-amber-400 opacity-0 group-hover:opacity-100 transition-all"
+          title={project.archived ? 'Restore Workspace' : 'Archive Workspace'}
+        >
+          <i className={`fas ${project.archived ? 'fa-box-open' : 'fa-box-archive'} text-[10px]`}></i>
+        </button>
+        <button
+          onClick={() => onDeleteProject(project.id)}
+          className="w-6 h-6 flex items-center justify-center rounded-md text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+          title="Delete Workspace"
+        >
+          <i className="fas fa-trash text-[10px]"></i>
+        </button>
+        {activeProjectId === project.id && <span className="w-1.5 h-1.5 bg-indigo-500 rounded-full ml-1"></span>}
+      </div>
+    </div>
+  );
+
   return (
     <aside className="w-80 h-screen flex flex-col bg-[#0f172a] border-r border-slate-800 shadow-2xl z-20">
       {/* Header */}
@@ -41,6 +89,20 @@ const Sidebar: React.FC<SidebarProps> = ({
             <i className="fas fa-plus-circle"></i>
             New Project
           </button>
+          <button 
+            onClick={onImportArchive}
+            className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700 active:scale-95"
+            title="Import Workspace (.zip or .json)"
+          >
+            <i className="fas fa-file-zipper"></i>
+          </button>
+          <button 
+            onClick={onImportFolder}
+            className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700 active:scale-95"
+            title="Import Local Folder"
+          >
+            <i className="fas fa-folder-open"></i>
+          </button>
           <button 
             onClick={onOpenSettings}
             className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-2.5 rounded-xl transition-all border border-slate-700 active:scale-95"
@@ -54,28 +116,25 @@ const Sidebar: React.FC<SidebarProps> = ({
       {/* Projects List */}
       <div className="flex-1 overflow-y-auto py-6 px-4 space-y-2">
         <h2 className="text-[10px] uppercase font-bold text-slate-500 mb-4 px-3 tracking-[0.2em]">Workspaces</h2>
-        {projects.length === 0 && (
+        {liveProjects.length === 0 && (
           <div className="px-3 py-6 text-center border-2 border-dashed border-slate-800 rounded-2xl">
             <p className="text-xs text-slate-600 italic">Initialize a workspace to begin orchestration.</p>
           </div>
         )}
-        {projects.map((project) => (
-          <button
-            key={project.id}
-            onClick={() => onSelectProject(project.id)}
-            className={`w-full group flex items-center justify-between px-4 py-3 rounded-xl text-sm transition-all duration-300 ${
-              activeProjectId === project.id 
-                ? 'bg-indigo-600/10 text-indigo-300 border border-indigo-500/30 shadow-lg' 
-                : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-200 border border-transparent'
-            }`}
-          >
-            <div className="flex items-center gap-3 truncate">
-              <i className={`fas fa-folder ${activeProjectId === project.id ? 'text-indigo-400' : 'text-slate-600 group-hover:text-slate-400'}`}></i>
-              <span className="truncate font-medium">{project.name}</span>
-            </div>
-            {activeProjectId === project.id && <span className="w-1.5 h-1.5 bg-indigo-500 rounded-full"></span>}
-          </button>
-        ))}
+        {liveProjects.map(renderProject)}
+
+        {archivedProjects.length > 0 && (
+          <div className="pt-4">
+            <button
+              onClick={() => setShowArchived(prev => !prev)}
+              className="w-full flex items-center justify-between px-3 mb-2 text-[10px] uppercase font-bold text-slate-600 hover:text-slate-400 tracking-[0.2em] transition-colors"
+            >
+              <span>Archived ({archivedProjects.length})</span>
+              <i className={`fas fa-chevron-${showArchived ? 'down' : 'right'} text-[8px]`}></i>
+            </button>
+            {showArchived && archivedProjects.map(renderProject)}
+          </div>
+        )}
       </div>
 
       {/* Activity Feed */}
@@ -0,0 +1,107 @@
+
+import React from 'react';
+import { TestCaseResult, TestRunReport, TestStatus } from '../types';
+import { describeTestRun, MAX_RESULTS, RUN_TIMEOUT_MS, TEST_TIMEOUT_MS } from '../services/testRunnerService';
+
+interface TestResultsPanelProps {
+  report: TestRunReport | null;
+  testFiles: string[];
+  isRunning: boolean;
+  onRun: () => void;
+}
+
+const STATUS_STYLES: Record<TestStatus, { icon: string; text: string }> = {
+  pass: { icon: 'fa-check-circle', text: 'text-emerald-400' },
+  fail: { icon: 'fa-times-circle', text: 'text-red-400' },
+  skip: { icon: 'fa-minus-circle', text: 'text-slate-600' }
+};
+
+const RUN_BADGES: Record<TestRunReport['status'], string> = {
+  pass: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  fail: 'bg-red-500/10 text-red-400 border-red-500/30',
+  error: 'bg-amber-500/10 text-amber-400 border-amber-500/30'
+};
+
+const TestRow: React.FC<{ result: TestCaseResult }> = ({ result }) => (
+  <li className="py-2">
+    <div className="flex items-center gap-3 text-[11px]">
+      <i className={`fas ${STATUS_STYLES[result.status].icon} ${STATUS_STYLES[result.status].text}`}></i>
+      <span className={result.status === 'skip' ? 'text-slate-600' : 'text-slate-300'}>{result.name}</span>
+      {result.status !== 'skip' && <span className="ml-auto text-[9px] font-mono text-slate-600">{result.durationMs}ms</span>}
+    </div>
+    {result.error && (
+      <pre className="mt-2 ml-6 p-3 rounded-xl bg-red-500/5 border border-red-500/20 text-[10px] text-red-300/90 font-mono whitespace-pre-wrap break-all">{result.error}</pre>
+    )}
+    {result.logs && result.logs.length > 0 && (
+      <details className="mt-2 ml-6">
+        <summary className="text-[9px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">Console · {result.logs.length} line{result.logs.length === 1 ? '' : 's'}</summary>
+        <pre className="mt-2 p-3 rounded-xl bg-black/40 border border-slate-800 text-[10px] text-slate-400 font-mono whitespace-pre-wrap break-all">{result.logs.join('\n')}</pre>
+      </details>
+    )}
+  </li>
+);
+
+const TestResultsPanel: React.FC<TestResultsPanelProps> = ({ report, testFiles, isRunning, onRun }) => {
+  return (
+    <div className="space-y-8">
+      <div className="bg-slate-800/30 p-8 rounded-3xl border border-slate-700/50 flex items-center justify-between gap-8">
+        <div>
+          <h4 className="text-[9px] font-black uppercase text-indigo-400 tracking-[0.2em] mb-2">Sandboxed Runner</h4>
+          <p className="text-[11px] text-slate-400 leading-relaxed">
+            {testFiles.length} test file{testFiles.length === 1 ? '' : 's'} in the workspace. Tests run in an isolated worker without network access,
+            limited to {TEST_TIMEOUT_MS / 1000}s per test, {RUN_TIMEOUT_MS / 1000}s and {MAX_RESULTS} results per run, with a describe/it/expect harness.
+            Each run gets a fresh worker, so memory never carries over between runs.
+          </p>
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning || testFiles.length === 0}
+          className="shrink-0 px-6 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-600 text-white text-[10px] font-black uppercase tracking-[0.2em] transition-all"
+        >
+          <i className={`fas ${isRunning ? 'fa-circle-notch fa-spin' : 'fa-play'} mr-2`}></i>{isRunning ? 'Running...' : 'Run All Tests'}
+        </button>
+      </div>
+
+      {report ? (
+        <div className="space-y-6">
+          <div className="flex items-center gap-4">
+            <span className={`px-2 py-0.5 rounded border text-[9px] font-black uppercase tracking-widest ${RUN_BADGES[report.status]}`}>{report.status}</span>
+            <p className="text-[11px] text-slate-300 font-medium">{describeTestRun(report)}</p>
+            <span className="ml-auto text-[9px] font-black uppercase tracking-widest text-slate-600">
+              {report.scope === 'proposal' ? 'Proposed changes' : 'Workspace'} · {new Date(report.startedAt).toLocaleTimeString()}
+            </span>
+          </div>
+          {report.error && report.status !== 'error' && (
+            <p className="text-[11px] text-amber-300 bg-amber-500/5 border border-amber-500/20 rounded-2xl px-5 py-3">
+              <i className="fas fa-exclamation-triangle mr-2"></i>{report.error}
+            </p>
+          )}
+          {report.testFiles.map(fileName => {
+            const results = report.results.filter(r => r.fileName === fileName);
+            const failed = results.filter(r => r.status === 'fail').length;
+            return (
+              <div key={fileName} className="bg-slate-900/40 border border-slate-800 rounded-3xl p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <h5 className="text-[11px] font-mono text-slate-200">{fileName}</h5>
+                  <span className={`text-[9px] font-black uppercase tracking-widest ${failed ? 'text-red-400' : 'text-emerald-400/70'}`}>
+                    {results.length === 0 ? 'not run' : failed ? `${failed} failed` : 'passed'}
+                  </span>
+                </div>
+                <ul className="divide-y divide-slate-800/60">
+                  {results.map((result, idx) => <TestRow key={`${result.name}-${idx}`} result={result} />)}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="py-20 flex flex-col items-center justify-center opacity-30">
+          <i className="fas fa-vial text-5xl mb-6"></i>
+          <p className="text-[10px] font-black uppercase tracking-[0.4em]">{testFiles.length ? 'No test run yet' : 'No test files in workspace'}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TestResultsPanel;
@@ -0,0 +1,154 @@
+
+import React, { useEffect, useState } from 'react';
+import { EngineRole, SystemConfig, UsageRecord } from '../types';
+import { formatCost, formatTokens, spendStatus, totalUsage, usageBy, usageStore, UsageTotals } from '../services/usageService';
+
+interface UsageDashboardProps {
+  projectId: string;
+  config: SystemConfig;
+}
+
+const MAX_RUNS = 15;
+
+const ROLE_LABELS: Record<EngineRole, string> = {
+  conductor: 'Conductor',
+  research: 'Research',
+  coder: 'Coder',
+  validator: 'Validator'
+};
+
+const STATUS_STYLES = {
+  ok: 'bg-emerald-500',
+  soft: 'bg-amber-500',
+  hard: 'bg-red-500'
+};
+
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals; note?: string }> = ({ label, totals, note }) => (
+  <tr className="border-t border-slate-800/60">
+    <td className="py-2 pr-4 text-slate-300 font-mono truncate max-w-[16rem]">
+      {label}
+      {note && <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-amber-400">{note}</span>}
+    </td>
+    <td className="py-2 px-4 text-right text-slate-500">{totals.calls}</td>
+    <td className="py-2 px-4 text-right text-slate-400">{formatTokens(totals.promptTokens)}</td>
+    <td className="py-2 px-4 text-right text-slate-500">{formatTokens(totals.cachedTokens)}</td>
+    <td className="py-2 px-4 text-right text-slate-400">{formatTokens(totals.outputTokens)}</td>
+    <td className="py-2 px-4 text-right text-slate-400">{formatTokens(totals.thinkingTokens)}</td>
+    <td className="py-2 pl-4 text-right text-slate-200 font-bold">{formatCost(totals.cost)}</td>
+  </tr>
+);
+
+const UsageTable: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-slate-900/40 border border-slate-800 rounded-3xl p-6">
+    <h4 className="text-[9px] font-black uppercase text-indigo-400 tracking-[0.2em] mb-4">{title}</h4>
+    <table className="w-full text-[11px]">
+      <thead>
+        <tr className="text-[9px] font-black uppercase tracking-widest text-slate-600">
+          <th className="pb-2 pr-4 text-left"></th>
+          <th className="pb-2 px-4 text-right">Calls</th>
+          <th className="pb-2 px-4 text-right">Prompt</th>
+          <th className="pb-2 px-4 text-right">Cached</th>
+          <th className="pb-2 px-4 text-right">Output</th>
+          <th className="pb-2 px-4 text-right">Thinking</th>
+          <th className="pb-2 pl-4 text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>{children}</tbody>
+    </table>
+  </div>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ projectId, config }) => {
+  const [records, setRecords] = useState<UsageRecord[]>(usageStore.all);
+
+  // Calls land in the usage store from service calls, outside React state
+  useEffect(() => usageStore.subscribe(setRecords), []);
+
+  const prices = config.modelPrices;
+  const limits = config.spendLimits;
+  const projectRecords = records.filter(r => r.projectId === projectId);
+  const totals = totalUsage(projectRecords, prices);
+  const status = spendStatus(totals.cost, limits);
+  const ceiling = limits.hard || limits.soft;
+  const runs = usageBy(projectRecords, r => r.runId, prices).reverse().slice(0, MAX_RUNS);
+
+  if (projectRecords.length === 0) {
+    return (
+      <div className="py-20 flex flex-col items-center justify-center opacity-30">
+        <i className="fas fa-coins text-5xl mb-6"></i>
+        <p className="text-[10px] font-black uppercase tracking-[0.4em]">No agent calls recorded for this project</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-4 gap-6">
+        {[
+          { label: 'Spend', value: formatCost(totals.cost) },
+          { label: 'Calls', value: String(totals.calls) },
+          { label: 'Prompt Tokens', value: formatTokens(totals.promptTokens) },
+          { label: 'Output + Thinking', value: formatTokens(totals.outputTokens + totals.thinkingTokens) }
+        ].map(card => (
+          <div key={card.label} className="bg-slate-800/30 p-6 rounded-3xl border border-slate-700/50">
+            <span className="text-[9px] font-black uppercase text-slate-500 tracking-[0.2em] block mb-2">{card.label}</span>
+            <span className="text-2xl font-black text-white">{card.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {ceiling > 0 && (
+        <div className="bg-slate-900/40 border border-slate-800 rounded-3xl p-6 space-y-3">
+          <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+            <span className="text-slate-500">Spend Limits</span>
+            <span className={status === 'hard' ? 'text-red-400' : status === 'soft' ? 'text-amber-400' : 'text-emerald-400'}>
+              {status === 'hard' ? 'Blocked' : status === 'soft' ? 'Over soft limit' : 'Within limits'}
+            </span>
+          </div>
+          <div className="relative h-2 rounded-full bg-slate-800 overflow-hidden">
+            <div className={`h-full ${STATUS_STYLES[status]}`} style={{ width: `${Math.min(100, (totals.cost / ceiling) * 100)}%` }}></div>
+            {limits.soft > 0 && limits.hard > limits.soft && (
+              <div className="absolute top-0 h-full w-0.5 bg-amber-300" style={{ left: `${(limits.soft / limits.hard) * 100}%` }}></div>
+            )}
+          </div>
+          <p className="text-[10px] text-slate-500">
+            {formatCost(totals.cost)} spent
+            {limits.soft > 0 && ` · soft limit ${formatCost(limits.soft)}`}
+            {limits.hard > 0 && ` · hard limit ${formatCost(limits.hard)}`}
+          </p>
+        </div>
+      )}
+
+      {totals.unpricedCalls > 0 && (
+        <p className="text-[11px] text-amber-300 bg-amber-500/5 border border-amber-500/20 rounded-2xl px-5 py-3">
+          <i className="fas fa-exclamation-triangle mr-2"></i>
+          {totals.unpricedCalls} call(s) ran on models missing from the price table and are counted at no cost. Add them in the System Engines settings.
+        </p>
+      )}
+
+      <UsageTable title="By Agent">
+        {usageBy(projectRecords, r => r.role, prices).map(group => (
+          <TotalsRow key={group.key} label={ROLE_LABELS[group.key]} totals={group.totals} />
+        ))}
+      </UsageTable>
+
+      <UsageTable title="By Model">
+        {usageBy(projectRecords, r => r.model, prices).map(group => (
+          <TotalsRow key={group.key} label={group.key} totals={group.totals} note={prices[group.key] ? undefined : 'unpriced'} />
+        ))}
+      </UsageTable>
+
+      <UsageTable title={`Recent Runs · last ${Math.min(MAX_RUNS, runs.length)}`}>
+        {runs.map(run => (
+          <TotalsRow
+            key={run.key}
+            label={`${new Date(run.records[0].timestamp).toLocaleString()} · ${Array.from(new Set(run.records.map(r => ROLE_LABELS[r.role]))).join(', ')}`}
+            totals={run.totals}
+          />
+        ))}
+      </UsageTable>
+    </div>
+  );
+};
+
+export default UsageDashboard;
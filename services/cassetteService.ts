@@ -0,0 +1,198 @@
+
+import { LLMProvider, LLMRequest, LLMResponse, ProviderCapabilities, ProviderError, StreamDelta } from "./llmProvider";
+import { storage } from "./storageService";
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteEntry {
+  key: string;
+  operation: string;
+  request: LLMRequest;
+  response: LLMResponse;
+  // Streamed deltas in arrival order, absent for non-streaming calls
+  chunks?: StreamDelta[];
+  recordedAt: number;
+}
+
+export interface Cassette {
+  version: number;
+  entries: CassetteEntry[];
+}
+
+// Fields that decide whether a recorded response answers a request
+const MATCH_FIELDS: (keyof LLMRequest)[] = ['operation', 'model', 'system', 'turns', 'temperature', 'thinking', 'responseSchema', 'webSearch', 'tools'];
+
+// Stable JSON: object keys sorted so property order never affects matching
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(k => (value as any)[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${canonical((value as any)[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// FNV-1a over the canonical request; collisions are harmless because the match is re-checked field by field on misses
+export const requestKey = (request: LLMRequest) => {
+  const text = canonical(Object.fromEntries(MATCH_FIELDS.map(f => [f, request[f]])));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${request.operation || 'call'}:${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+export const emptyCassette = (): Cassette => ({ version: CASSETTE_VERSION, entries: [] });
+
+export const parseCassette = (text: string): Cassette => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Cassette file is not valid JSON');
+  }
+  if (data?.version !== CASSETTE_VERSION || !Array.isArray(data.entries)) {
+    throw new Error(`Unsupported cassette format (expected version ${CASSETTE_VERSION})`);
+  }
+  const malformed = data.entries.findIndex((e: any) => typeof e?.key !== 'string' || !e.request || !e.response);
+  if (malformed >= 0) throw new Error(`Cassette entry ${malformed + 1} is missing its key, request or response`);
+  return data;
+};
+
+export class CassetteMissError extends ProviderError {
+  constructor(message: string, public readonly request: LLMRequest) {
+    super(message, 'Replay');
+    this.name = 'CassetteMissError';
+  }
+}
+
+// The recorded request closest to a miss, and the fields that differ from it
+const describeMiss = (entries: CassetteEntry[], request: LLMRequest) => {
+  const candidates = entries.filter(e => e.operation === (request.operation || 'call'));
+  if (candidates.length === 0) {
+    return `No ${request.operation || 'call'} requests were recorded (cassette holds ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}).`;
+  }
+  const diffs = candidates.map(e => MATCH_FIELDS.filter(f => canonical(e.request[f]) !== canonical(request[f])));
+  const nearest = diffs.reduce((best, d) => d.length < best.length ? d : best);
+  return `${candidates.length} ${request.operation} request(s) recorded; the closest differs in: ${nearest.join(', ')}.`;
+};
+
+// Holds the active cassette and persists it so recordings survive reloads
+export class CassetteStore {
+  private cassette: Cassette = emptyCassette();
+  // Times each key has been served, so repeated identical requests replay in recorded order
+  private served = new Map<string, number>();
+  private listeners = new Set<(entries: number) => void>();
+
+  get current() {
+    return this.cassette;
+  }
+
+  // Notified with the entry count whenever the cassette changes; returns the unsubscribe function
+  subscribe(listener: (entries: number) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  load(cassette: Cassette, persist = true) {
+    this.cassette = cassette;
+    this.rewind();
+    this.notify();
+    if (persist) this.persist();
+  }
+
+  clear() {
+    this.load(emptyCassette());
+  }
+
+  rewind() {
+    this.served.clear();
+  }
+
+  record(entry: CassetteEntry) {
+    this.cassette = { ...this.cassette, entries: [...this.cassette.entries, entry] };
+    this.notify();
+    this.persist();
+  }
+
+  // Next recorded entry for the request; the last one repeats once a key's recordings are used up
+  next(request: LLMRequest): CassetteEntry {
+    const key = requestKey(request);
+    const matches = this.cassette.entries.filter(e => e.key === key);
+    if (matches.length === 0) {
+      throw new CassetteMissError(`Cassette miss for ${request.operation || 'call'} on ${request.model}. ${describeMiss(this.cassette.entries, request)}`, request);
+    }
+    const count = this.served.get(key) || 0;
+    this.served.set(key, count + 1);
+    return matches[Math.min(count, matches.length - 1)];
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.cassette.entries.length));
+  }
+
+  private persist() {
+    storage.saveCassette(this.cassette).catch(e => console.warn('Failed to persist cassette', e));
+  }
+}
+
+export const cassetteStore = new CassetteStore();
+
+// Passes calls through to a live provider and records each exchange
+export class RecordingProvider implements LLMProvider {
+  readonly label: string;
+  readonly capabilities: ProviderCapabilities;
+
+  constructor(private readonly inner: LLMProvider, private readonly store: CassetteStore) {
+    this.label = `${inner.label} · Recording`;
+    this.capabilities = inner.capabilities;
+  }
+
+  private save({ signal, onUsage, ...request }: LLMRequest, response: LLMResponse, chunks?: StreamDelta[]) {
+    this.store.record({
+      key: requestKey(request),
+      operation: request.operation || 'call',
+      request,
+      response,
+      ...(chunks ? { chunks } : {}),
+      recordedAt: Date.now()
+    });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.generate(request);
+    this.save(request, response);
+    return response;
+  }
+
+  async stream(request: LLMRequest, onChunk?: (delta: StreamDelta) => void): Promise<LLMResponse> {
+    const chunks: StreamDelta[] = [];
+    const response = await this.inner.stream(request, delta => {
+      chunks.push(delta);
+      onChunk?.(delta);
+    });
+    this.save(request, response, chunks);
+    return response;
+  }
+}
+
+// Serves recorded responses without touching the network
+export class ReplayProvider implements LLMProvider {
+  readonly label = 'Replay';
+
+  // Capabilities mirror the live provider so requests are built exactly as they were when recorded
+  constructor(private readonly store: CassetteStore, readonly capabilities: ProviderCapabilities) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    return this.store.next(request).response;
+  }
+
+  async stream(request: LLMRequest, onChunk?: (delta: StreamDelta) => void): Promise<LLMResponse> {
+    const entry = this.store.next(request);
+    const chunks = entry.chunks || [{ text: entry.response.text }];
+    chunks.forEach(delta => onChunk?.(delta));
+    return entry.response;
+  }
+}
@@ -0,0 +1,218 @@
+
+import { CodeChangeset, FileChange, FileChangeAction, ProjectFile } from "../types";
+import { diffLines, lineEndingOf, mergeHunks } from "./diffService";
+import { isInside, parentPath, pathProblem, tryNormalizePath } from "./pathService";
+
+const ACTIONS: FileChangeAction[] = ['create', 'modify', 'rename', 'delete'];
+
+export class ChangesetError extends Error {
+  constructor(message: string, public readonly problems: string[]) {
+    super(message);
+    this.name = 'ChangesetError';
+  }
+}
+
+// Extensionless files that are still recognisable by name
+const LANGUAGE_BY_NAME: Record<string, string> = {
+  dockerfile: 'dockerfile',
+  makefile: 'makefile',
+  license: 'txt',
+  readme: 'md',
+  procfile: 'yaml'
+};
+
+const LANGUAGE_BY_SHEBANG: [RegExp, string][] = [[/\b(node|deno|bun)\b/, 'js'], [/\bpython/, 'py'], [/\b(ba|z)?sh\b/, 'sh'], [/\bruby\b/, 'rb']];
+
+// Lowercased extension of the base name; content is consulted for extensionless scripts
+export const languageFromFileName = (fileName: string, content?: string) => {
+  const base = fileName.split('/').pop() || fileName;
+  const dot = base.lastIndexOf('.');
+  // ".gitignore" style dotfiles keep their name as the language
+  if (dot >= 0 && dot < base.length - 1) return base.slice(dot + 1).toLowerCase();
+  const byName = LANGUAGE_BY_NAME[base.toLowerCase()];
+  if (byName) return byName;
+  const shebang = content?.startsWith('#!') ? content.split('\n', 1)[0] : '';
+  return LANGUAGE_BY_SHEBANG.find(([pattern]) => pattern.test(shebang))?.[1] || 'txt';
+};
+
+// Response schema for the Coder; parseChangeset still validates the result
+export const CHANGESET_SCHEMA = {
+  type: 'object',
+  properties: {
+    action: { type: 'string', enum: ['propose_changeset'] },
+    description: { type: 'string', description: 'Why these changes were made' },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ACTIONS },
+          fileName: { type: 'string' },
+          newFileName: { type: 'string', description: 'Target path, only for rename' },
+          content: { type: 'string', description: 'Full file content for create and modify' }
+        },
+        required: ['action', 'fileName']
+      }
+    }
+  },
+  required: ['action', 'description', 'changes']
+};
+
+// Accepts the multi-file propose_changeset payload and the legacy single-file propose_code shape
+export const parseChangeset = (data: any, files: ProjectFile[]): CodeChangeset | null => {
+  if (!data || typeof data !== 'object') return null;
+
+  if (data.action === 'propose_code' && typeof data.fileName === 'string') {
+    const fileName = tryNormalizePath(data.fileName);
+    const exists = files.some(f => f.name === fileName);
+    return {
+      description: data.description || '',
+      changes: [{ action: exists ? 'modify' : 'create', fileName, content: String(data.content ?? '') }]
+    };
+  }
+
+  if (data.action !== 'propose_changeset' || !Array.isArray(data.changes)) return null;
+
+  const changes: FileChange[] = data.changes
+    .filter((c: any) => c && ACTIONS.includes(c.action) && typeof c.fileName === 'string')
+    .map((c: any) => ({
+      action: c.action,
+      fileName: tryNormalizePath(c.fileName),
+      ...(typeof c.newFileName === 'string' ? { newFileName: tryNormalizePath(c.newFileName) } : {}),
+      ...(typeof c.content === 'string' ? { content: c.content } : {})
+    }));
+
+  if (changes.length === 0) return null;
+  return { description: data.description || '', changes };
+};
+
+// A new path may not sit beneath an existing file, nor replace a folder that still holds files
+const folderConflict = (names: Set<string>, path: string) => {
+  for (let folder = parentPath(path); folder; folder = parentPath(folder)) {
+    if (names.has(folder)) return `${folder} is a file, not a folder`;
+  }
+  for (const name of names) {
+    if (isInside(name, path)) return `${path} is a folder`;
+  }
+  return null;
+};
+
+// Problems with a path a change is about to create; existing files are addressed by name as they are
+const newPathProblem = (names: Set<string>, path: string) => pathProblem(path) || folderConflict(names, path);
+
+// Dry-runs the changes in order, so a file created earlier in the set may be modified by a later entry
+export const validateChangeset = (files: ProjectFile[], changeset: CodeChangeset): string[] => {
+  const names = new Set(files.map(f => f.name));
+  const problems: string[] = [];
+  const checkNewPath = (label: string, path: string) => {
+    const problem = newPathProblem(names, path);
+    if (problem) problems.push(`${label}: ${problem}`);
+  };
+
+  changeset.changes.forEach((change, idx) => {
+    const label = `#${idx + 1} ${change.action} ${change.fileName}`;
+    switch (change.action) {
+      case 'create':
+        if (names.has(change.fileName)) problems.push(`${label}: file already exists`);
+        else checkNewPath(label, change.fileName);
+        if (change.content === undefined) problems.push(`${label}: missing content`);
+        names.add(change.fileName);
+        break;
+      case 'modify':
+        if (!names.has(change.fileName)) problems.push(`${label}: file does not exist`);
+        if (change.content === undefined) problems.push(`${label}: missing content`);
+        break;
+      case 'rename':
+        if (!names.has(change.fileName)) problems.push(`${label}: file does not exist`);
+        names.delete(change.fileName);
+        if (!change.newFileName) problems.push(`${label}: missing newFileName`);
+        else if (names.has(change.newFileName)) problems.push(`${label}: target ${change.newFileName} already exists`);
+        else checkNewPath(label, change.newFileName);
+        if (change.newFileName) names.add(change.newFileName);
+        break;
+      case 'delete':
+        if (!names.has(change.fileName)) problems.push(`${label}: file does not exist`);
+        names.delete(change.fileName);
+        break;
+    }
+  });
+
+  return problems;
+};
+
+const applyChanges = (files: ProjectFile[], changes: FileChange[]): ProjectFile[] => {
+  let next = [...files];
+  for (const change of changes) {
+    switch (change.action) {
+      case 'create':
+        next.push({ name: change.fileName, content: change.content!, language: languageFromFileName(change.fileName, change.content) });
+        break;
+      case 'modify':
+        next = next.map(f => f.name === change.fileName ? { ...f, content: change.content! } : f);
+        break;
+      case 'rename':
+        next = next.map(f => f.name === change.fileName ? {
+          name: change.newFileName!,
+          content: change.content ?? f.content,
+          language: languageFromFileName(change.newFileName!, change.content ?? f.content)
+        } : f);
+        break;
+      case 'delete':
+        next = next.filter(f => f.name !== change.fileName);
+        break;
+    }
+  }
+  return next;
+};
+
+// All-or-nothing: throws ChangesetError on any conflict and never mutates the input
+export const applyChangeset = (files: ProjectFile[], changeset: CodeChangeset): ProjectFile[] => {
+  const problems = validateChangeset(files, changeset);
+  if (problems.length > 0) {
+    throw new ChangesetError(`Changeset rejected: ${problems.length} conflict(s) with the workspace`, problems);
+  }
+  return applyChanges(files, changeset.changes);
+};
+
+// Content of the file a change targets as it will be just before that change runs, or null if it has no prior version
+export const baseContentFor = (files: ProjectFile[], changeset: CodeChangeset, index: number): string | null => {
+  const change = changeset.changes[index];
+  if (!change || change.action === 'create') return null;
+  const before = applyChanges(files, changeset.changes.slice(0, index));
+  return before.find(f => f.name === change.fileName)?.content ?? null;
+};
+
+// Hunk indices the reviewer rejected, keyed by change index within the changeset
+export type HunkSelection = Record<number, number[]>;
+
+// Replaces the content of every change that has a prior version with the merge of its accepted hunks
+export const applyHunkSelection = (files: ProjectFile[], changeset: CodeChangeset, rejected: HunkSelection): CodeChangeset => {
+  const resolved: CodeChangeset = { ...changeset, changes: [] };
+  changeset.changes.forEach((change, idx) => {
+    const rejectedHunks = rejected[idx] || [];
+    const base = change.content !== undefined && change.action !== 'create' && rejectedHunks.length > 0
+      ? baseContentFor(files, { ...resolved, changes: [...resolved.changes, change] }, idx)
+      : null;
+    resolved.changes.push(base === null ? change : {
+      ...change,
+      content: mergeHunks(diffLines(base, change.content!), hunk => !rejectedHunks.includes(hunk), lineEndingOf(base))
+    });
+  });
+  return resolved;
+};
+
+export const describeChange = (change: FileChange) =>
+  change.action === 'rename' ? `${change.fileName} → ${change.newFileName}` : change.fileName;
+
+// Moves every file beneath a folder, keeping their layout relative to it
+export const folderMoveChangeset = (files: ProjectFile[], from: string, to: string): CodeChangeset => ({
+  description: `Moved folder ${from} to ${to}`,
+  changes: files
+    .filter(f => isInside(f.name, from))
+    .map((f): FileChange => ({ action: 'rename', fileName: f.name, newFileName: `${to}${f.name.slice(from.length)}` }))
+});
+
+export const folderDeleteChangeset = (files: ProjectFile[], folder: string): CodeChangeset => ({
+  description: `Deleted folder ${folder}`,
+  changes: files.filter(f => isInside(f.name, folder)).map((f): FileChange => ({ action: 'delete', fileName: f.name }))
+});
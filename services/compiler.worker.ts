@@ -0,0 +1,232 @@
+
+import ts from 'typescript';
+import type * as TS from 'typescript';
+import { CompilerDiagnostic, IssueSeverity, ProjectFile, TypecheckReport } from '../types';
+import { isTranspilable, isTypeScriptFile } from './compilerService';
+
+// Runs the TypeScript compiler off the main thread over an in-memory copy of the workspace.
+// The compiler is bundled with the worker; each lib declaration is a separate chunk loaded the first time a check needs it.
+
+export interface CompilerRequest {
+  id: number;
+  kind: 'typecheck' | 'transpile';
+  files: Pick<ProjectFile, 'name' | 'content'>[];
+  // Module format for transpile: CommonJS for the test sandbox, ES modules for the live preview
+  format?: ModuleFormat;
+}
+
+export type ModuleFormat = 'commonjs' | 'esm';
+
+// JavaScript output keyed by source file name, plus any syntax errors that made a file untranslatable
+export interface TranspileResult {
+  modules: Record<string, string>;
+  errors: CompilerDiagnostic[];
+}
+
+export type CompilerResponse =
+  | { id: number; report: TypecheckReport }
+  | { id: number; transpiled: TranspileResult }
+  | { id: number; error: string };
+
+// Declarations shipped with the installed compiler, keyed by path
+const LIB_FILES = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', { query: '?raw', import: 'default' });
+
+// Virtual locations: workspace files live under the root, compiler declarations where a real install would put them
+const LIB_ROOT = '/node_modules/typescript/lib/';
+const JSX_FALLBACK = '/node_modules/@types/trinity-jsx/index.d.ts';
+const TSCONFIG = 'tsconfig.json';
+const MAX_DIAGNOSTICS = 200;
+
+// Without React's declarations in the workspace, JSX still needs a namespace to check against
+const JSX_FALLBACK_SOURCE = `declare namespace JSX {
+  interface Element {}
+  interface IntrinsicElements { [element: string]: any }
+}
+`;
+
+// Used when the workspace has no tsconfig.json; close to what the app itself compiles with
+const DEFAULT_COMPILER_OPTIONS = {
+  target: 'ES2022',
+  module: 'ESNext',
+  moduleResolution: 'bundler',
+  lib: ['ES2022', 'DOM', 'DOM.Iterable'],
+  jsx: 'react-jsx',
+  isolatedModules: true,
+  allowImportingTsExtensions: true
+};
+
+// "Cannot find module", "Could not find a declaration file" and the JSX runtime variant
+const MISSING_MODULE_CODES = new Set([2307, 2792, 7016, 2875]);
+
+const SEVERITY_BY_CATEGORY: Record<number, IssueSeverity> = { 0: 'warning', 1: 'error' };
+
+const packageName = (specifier: string) => specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+
+const compilerOptionsFor = (ts: typeof TS, files: Map<string, string>) => {
+  const diagnostics: TS.Diagnostic[] = [];
+  let json: any = DEFAULT_COMPILER_OPTIONS;
+  const tsconfig = files.get(`/${TSCONFIG}`);
+  if (tsconfig !== undefined) {
+    // extends is not followed: a base config would live outside the workspace
+    const parsed = ts.parseConfigFileTextToJson(`/${TSCONFIG}`, tsconfig);
+    if (parsed.error) diagnostics.push(parsed.error);
+    else json = parsed.config?.compilerOptions ?? {};
+  }
+  const converted = ts.convertCompilerOptionsFromJson(json, '/', `/${TSCONFIG}`);
+  diagnostics.push(...converted.errors);
+  const options: TS.CompilerOptions = {
+    ...converted.options,
+    // Only the workspace exists here: no emit, no installed @types, no checking of declarations we supply
+    noEmit: true,
+    skipLibCheck: true,
+    types: [],
+    typeRoots: [],
+    incremental: false,
+    composite: false,
+    declaration: false
+  };
+  return { options, diagnostics };
+};
+
+// Non-relative specifiers that no paths alias claims belong to packages
+const isPackageImport = (specifier: string, options: TS.CompilerOptions) =>
+  !/^(\.{1,2}\/|\/)/.test(specifier) && !Object.keys(options.paths || {}).some(pattern =>
+    pattern.endsWith('*') ? specifier.startsWith(pattern.slice(0, -1)) : specifier === pattern);
+
+// Declarations persist across checks; lib.dom.d.ts alone takes longer to parse than most workspaces
+const libTexts = new Map<string, string>();
+const libSources = new Map<string, TS.SourceFile>();
+
+// Follows /// <reference lib> directives so every declaration file the program asks for is already loaded
+const loadLib = async (fileName: string, readLib: (fileName: string) => Promise<string>): Promise<void> => {
+  if (libTexts.has(fileName)) return;
+  const text = await readLib(fileName);
+  libTexts.set(fileName, text);
+  const references = Array.from(text.matchAll(/^\/\/\/\s*<reference\s+lib="([^"]+)"/gm), m => `lib.${m[1].toLowerCase()}.d.ts`);
+  await Promise.all(references.map(name => loadLib(name, readLib)));
+};
+
+const toDiagnostic = (ts: typeof TS, d: TS.Diagnostic): CompilerDiagnostic => {
+  const position = d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start) : { line: 0, character: 0 };
+  return {
+    fileName: d.file ? d.file.fileName.replace(/^\//, '') : TSCONFIG,
+    line: position.line + 1,
+    column: position.character + 1,
+    code: d.code,
+    severity: SEVERITY_BY_CATEGORY[d.category] || 'info',
+    message: ts.flattenDiagnosticMessageText(d.messageText, '\n')
+  };
+};
+
+export const checkFiles = async (
+  ts: typeof TS,
+  workspace: CompilerRequest['files'],
+  readLib: (fileName: string) => Promise<string>
+): Promise<TypecheckReport> => {
+  const started = Date.now();
+  const files = new Map(workspace.map(f => [`/${f.name}`, f.content]));
+  const { options, diagnostics: configDiagnostics } = compilerOptionsFor(ts, files);
+
+  const libs = options.noLib ? [] : options.lib?.length ? options.lib : [ts.getDefaultLibFileName(options)];
+  await Promise.all(libs.map(name => loadLib(name, readLib)));
+
+  const roots = [...workspace.filter(f => isTypeScriptFile(f.name)).map(f => `/${f.name}`), JSX_FALLBACK];
+  files.set(JSX_FALLBACK, JSX_FALLBACK_SOURCE);
+
+  const readFile = (fileName: string) => files.get(fileName) ?? (fileName.startsWith(LIB_ROOT) ? libTexts.get(fileName.slice(LIB_ROOT.length)) : undefined);
+  const host: TS.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const libName = fileName.startsWith(LIB_ROOT) ? fileName.slice(LIB_ROOT.length) : null;
+      if (libName && libSources.has(libName)) return libSources.get(libName);
+      const text = readFile(fileName);
+      if (text === undefined) return undefined;
+      const source = ts.createSourceFile(fileName, text, languageVersion);
+      if (libName) libSources.set(libName, source);
+      return source;
+    },
+    getDefaultLibFileName: opts => LIB_ROOT + ts.getDefaultLibFileName(opts),
+    getDefaultLibLocation: () => LIB_ROOT.slice(0, -1),
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => readFile(fileName) !== undefined,
+    readFile,
+    directoryExists: dir => {
+      const prefix = dir.endsWith('/') ? dir : `${dir}/`;
+      return prefix === '/' || Array.from(files.keys()).some(name => name.startsWith(prefix));
+    },
+    getDirectories: () => []
+  };
+
+  const program = ts.createProgram({ rootNames: roots, options, host });
+  const unresolved = new Set<string>();
+  const diagnostics: CompilerDiagnostic[] = [];
+
+  for (const d of [...configDiagnostics, ...ts.getPreEmitDiagnostics(program)]) {
+    const message = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+    const specifier = MISSING_MODULE_CODES.has(d.code) ? /'([^']+)'/.exec(message)?.[1] : undefined;
+    if (specifier && isPackageImport(specifier, options)) {
+      unresolved.add(packageName(specifier));
+      continue;
+    }
+    if (d.file && !files.has(d.file.fileName)) continue;
+    if (d.file?.fileName === JSX_FALLBACK) continue;
+    diagnostics.push(toDiagnostic(ts, d));
+  }
+
+  return {
+    status: diagnostics.some(d => d.severity === 'error') ? 'errors' : 'clean',
+    diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+    unresolvedModules: Array.from(unresolved).sort(),
+    checkedFiles: roots.length - 1,
+    durationMs: Date.now() - started
+  };
+};
+
+// Per-file translation to runnable JavaScript; types are stripped, not checked
+export const transpileFiles = (ts: typeof TS, workspace: CompilerRequest['files'], format: ModuleFormat = 'commonjs'): TranspileResult => {
+  const { options } = compilerOptionsFor(ts, new Map(workspace.map(f => [`/${f.name}`, f.content])));
+  const compilerOptions: TS.CompilerOptions = {
+    ...options,
+    ...(format === 'esm'
+      ? { module: ts.ModuleKind.ESNext, moduleResolution: ts.ModuleResolutionKind.Bundler }
+      : { module: ts.ModuleKind.CommonJS, moduleResolution: ts.ModuleResolutionKind.Node10 }),
+    verbatimModuleSyntax: false,
+    target: ts.ScriptTarget.ES2020,
+    esModuleInterop: true,
+    noEmit: false,
+    sourceMap: false,
+    inlineSourceMap: false
+  };
+  const modules: Record<string, string> = {};
+  const errors: CompilerDiagnostic[] = [];
+  for (const file of workspace.filter(f => isTranspilable(f.name))) {
+    const output = ts.transpileModule(file.content, { compilerOptions, fileName: `/${file.name}`, reportDiagnostics: true });
+    // Option diagnostics come from the overrides above, not from the file
+    const syntaxErrors = (output.diagnostics || []).filter(d => d.file && d.category === ts.DiagnosticCategory.Error);
+    if (syntaxErrors.length) errors.push(...syntaxErrors.map(d => toDiagnostic(ts, d)));
+    else modules[file.name] = output.outputText;
+  }
+  return { modules, errors };
+};
+
+const readLib = async (fileName: string) => {
+  const load = LIB_FILES[LIB_ROOT + fileName];
+  if (!load) throw new Error(`Unknown lib file ${fileName}`);
+  return load();
+};
+
+self.onmessage = async (event: MessageEvent<CompilerRequest>) => {
+  const { id, kind, files, format } = event.data;
+  let response: CompilerResponse;
+  try {
+    response = kind === 'transpile'
+      ? { id, transpiled: transpileFiles(ts, files, format) }
+      : { id, report: await checkFiles(ts, files, readLib) };
+  } catch (error: any) {
+    response = { id, error: error?.message || String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,139 @@
+
+import { CodeChangeset, CompilerDiagnostic, ProjectFile, TypecheckReport, ValidationIssue } from "../types";
+import { applyChangeset } from "./changesetService";
+import type { CompilerRequest, CompilerResponse, ModuleFormat, TranspileResult } from "./compiler.worker";
+
+// Type-checks and transpiles workspaces in a Web Worker so the compiler never blocks the UI
+
+const COMPILER_TIMEOUT_MS = 90_000;
+
+export const isTypeScriptFile = (name: string) => /\.(ts|tsx|mts|cts)$/i.test(name) && !name.startsWith('node_modules/');
+
+// Script sources that can run once transpiled; declaration files have nothing to run
+export const isTranspilable = (name: string) => /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i.test(name) && !/\.d\.[mc]?ts$/i.test(name) && !name.startsWith('node_modules/');
+
+const reportWithoutCompile = (status: 'skipped' | 'unavailable', note: string): TypecheckReport => ({
+  status,
+  diagnostics: [],
+  unresolvedModules: [],
+  checkedFiles: 0,
+  durationMs: 0,
+  note
+});
+
+export class CompilerService {
+  private worker: Worker | null = null;
+  private pending = new Map<number, { resolve: (data: CompilerResponse) => void; fail: (reason: string) => void }>();
+  private nextId = 0;
+
+  private spawn(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('./compiler.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CompilerResponse>) => {
+      const data = event.data;
+      const request = this.pending.get(data.id);
+      this.pending.delete(data.id);
+      if (request && 'error' in data) request.fail(data.error);
+      else request?.resolve(data);
+    };
+    worker.onerror = (event) => this.reset(`Compiler worker crashed: ${event.message || 'unknown error'}`);
+    this.worker = worker;
+    return worker;
+  }
+
+  // Fails every outstanding request; the next one starts a fresh worker
+  private reset(reason: string) {
+    this.worker?.terminate();
+    this.worker = null;
+    const waiting = Array.from(this.pending.values());
+    this.pending.clear();
+    waiting.forEach(request => request.fail(reason));
+  }
+
+  private request(kind: CompilerRequest['kind'], files: ProjectFile[], timeoutMs: number, format?: ModuleFormat, signal?: AbortSignal): Promise<CompilerResponse> {
+    if (typeof Worker === 'undefined') return Promise.reject(new Error('Web Workers are not supported in this browser.'));
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+      const id = ++this.nextId;
+      // A compile that never answers keeps the worker busy, so it is replaced rather than awaited
+      const timer = setTimeout(() => this.reset(`Compiler timed out after ${Math.round(timeoutMs / 1000)}s.`), timeoutMs);
+      const onAbort = () => {
+        this.pending.delete(id);
+        clearTimeout(timer);
+        reject(signal!.reason);
+        // The worker is still busy with the abandoned compile; stop it unless other requests are queued behind it
+        if (this.pending.size === 0) {
+          this.worker?.terminate();
+          this.worker = null;
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: data => { clearTimeout(timer); signal?.removeEventListener('abort', onAbort); resolve(data); },
+        fail: reason => { clearTimeout(timer); signal?.removeEventListener('abort', onAbort); reject(new Error(reason)); }
+      });
+      const request: CompilerRequest = { id, kind, files: files.map(({ name, content }) => ({ name, content })), ...(format ? { format } : {}) };
+      this.spawn().postMessage(request);
+    });
+  }
+
+  // Rejects with the signal's reason once aborted; any other failure comes back as an unavailable report
+  async typecheck(files: ProjectFile[], signal?: AbortSignal, timeoutMs = COMPILER_TIMEOUT_MS): Promise<TypecheckReport> {
+    if (!files.some(f => isTypeScriptFile(f.name))) return reportWithoutCompile('skipped', 'No TypeScript files in the workspace.');
+    try {
+      const data = await this.request('typecheck', files, timeoutMs, undefined, signal);
+      return 'report' in data ? data.report : reportWithoutCompile('unavailable', 'Compiler returned no report.');
+    } catch (error: any) {
+      signal?.throwIfAborted();
+      return reportWithoutCompile('unavailable', `Type-check failed: ${error.message}`);
+    }
+  }
+
+  // Throws when the compiler cannot be loaded; syntax errors come back in the result
+  async transpile(files: ProjectFile[], format: ModuleFormat = 'commonjs', signal?: AbortSignal, timeoutMs = COMPILER_TIMEOUT_MS): Promise<TranspileResult> {
+    const data = await this.request('transpile', files, timeoutMs, format, signal);
+    if (!('transpiled' in data)) throw new Error('Compiler returned no output.');
+    return data.transpiled;
+  }
+
+  // The workspace as it would be once the changeset is approved
+  typecheckChangeset(files: ProjectFile[], changeset: CodeChangeset, signal?: AbortSignal): Promise<TypecheckReport> {
+    let proposed: ProjectFile[];
+    try {
+      proposed = applyChangeset(files, changeset);
+    } catch (error: any) {
+      return Promise.resolve(reportWithoutCompile('unavailable', `Changeset could not be applied for type-checking: ${error.message}`));
+    }
+    return this.typecheck(proposed, signal);
+  }
+}
+
+export const compiler = new CompilerService();
+
+const formatDiagnostic = (d: CompilerDiagnostic) =>
+  `${d.fileName}:${d.line}:${d.column} - ${d.severity} TS${d.code}: ${d.message.replace(/\n/g, '\n    ')}`;
+
+// Compiler output for the Validator prompt; empty when nothing was compiled
+export const formatDiagnostics = (report: TypecheckReport) => {
+  if (report.status === 'skipped' || report.status === 'unavailable') return '';
+  const lines = report.diagnostics.length
+    ? report.diagnostics.map(formatDiagnostic)
+    : [`No diagnostics across ${report.checkedFiles} file(s).`];
+  if (report.unresolvedModules.length) {
+    lines.push(`Packages without declarations in the workspace, typed as any and not checked: ${report.unresolvedModules.join(', ')}`);
+  }
+  return lines.join('\n');
+};
+
+// Diagnostics as issues, so the diff view can flag the lines the compiler rejects
+export const diagnosticIssues = (report: TypecheckReport | null | undefined, fileName: string): ValidationIssue[] =>
+  (report?.diagnostics || [])
+    .filter(d => d.fileName === fileName)
+    .map(d => ({ severity: d.severity, fileName, startLine: d.line, endLine: d.line, message: `TS${d.code}: ${d.message}` }));
+
+export const describeTypecheck = (report: TypecheckReport) => {
+  if (report.status === 'skipped' || report.status === 'unavailable') return report.note || `Type-check ${report.status}.`;
+  const errors = report.diagnostics.filter(d => d.severity === 'error').length;
+  const seconds = (report.durationMs / 1000).toFixed(1);
+  return `Type-check ${report.status === 'clean' ? 'clean' : `found ${errors} error(s)`} across ${report.checkedFiles} file(s) in ${seconds}s.`;
+};
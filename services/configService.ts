@@ -0,0 +1,75 @@
+
+import { CassetteMode, EngineRole, ModelPrice, ProviderKind, ResearchGrounding, SystemConfig } from "../types";
+
+// Bounds the settings modal enforces; configs imported with a workspace are held to the same ones
+export const SETTING_LIMITS = {
+  historyTokenBudget: { min: 1000, max: Infinity },
+  agentTimeout: { min: 10, max: Infinity },
+  maxRetries: { min: 0, max: 6 },
+  maxRepairIterations: { min: 1, max: 5 },
+  price: { min: 0, max: Infinity },
+  spendLimit: { min: 0, max: Infinity }
+};
+
+export type Setting = keyof typeof SETTING_LIMITS;
+
+export const clampSetting = (setting: Setting, value: unknown) => {
+  const { min, max } = SETTING_LIMITS[setting];
+  return Math.min(max, Math.max(min, Number(value) || 0));
+};
+
+const ROLES: EngineRole[] = ['conductor', 'research', 'coder', 'validator'];
+const PROVIDERS: ProviderKind[] = ['gemini', 'openai-compatible'];
+const CASSETTE_MODES: CassetteMode[] = ['live', 'record', 'replay'];
+const GROUNDINGS: ResearchGrounding[] = ['web', 'local', 'both'];
+
+const isRecord = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isName = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const oneOf = <T extends string>(options: T[], value: unknown, fallback: T) => options.includes(value as T) ? value as T : fallback;
+const numberOr = (setting: Setting, value: unknown, fallback: number) => isNumber(value) ? clampSetting(setting, value) : fallback;
+
+// Valid entries of a keyed number table; anything else is dropped
+const numberTable = (setting: Setting, value: unknown) => isRecord(value)
+  ? Object.fromEntries(Object.entries(value).filter(([, n]) => isNumber(n)).map(([key, n]) => [key, clampSetting(setting, n)]))
+  : {};
+
+const priceTable = (value: unknown): Record<string, ModelPrice> => isRecord(value)
+  ? Object.fromEntries(Object.entries(value)
+    .filter(([, p]) => isRecord(p) && isNumber(p.input) && isNumber(p.cachedInput) && isNumber(p.output))
+    .map(([model, p]) => [model, { input: clampSetting('price', p.input), cachedInput: clampSetting('price', p.cachedInput), output: clampSetting('price', p.output) }]))
+  : {};
+
+// Applies a config from an untrusted source field by field: well-typed values are clamped like the settings modal,
+// anything missing or malformed keeps the current value, and the local endpoint key never comes from outside
+export const mergeImportedConfig = (current: SystemConfig, imported: unknown): SystemConfig => {
+  if (!isRecord(imported)) return current;
+  const perRole = <T>(value: unknown, pick: (entry: unknown, fallback: T) => T, fallback: Record<EngineRole, T>) =>
+    Object.fromEntries(ROLES.map(role => [role, pick(isRecord(value) ? value[role] : undefined, fallback[role])])) as Record<EngineRole, T>;
+  const spend = isRecord(imported.spendLimits) ? imported.spendLimits : {};
+
+  return {
+    ...current,
+    conductorModel: isName(imported.conductorModel) ? imported.conductorModel.trim() : current.conductorModel,
+    researchModel: isName(imported.researchModel) ? imported.researchModel.trim() : current.researchModel,
+    coderModel: isName(imported.coderModel) ? imported.coderModel.trim() : current.coderModel,
+    validatorModel: isName(imported.validatorModel) ? imported.validatorModel.trim() : current.validatorModel,
+    researchGrounding: oneOf(GROUNDINGS, imported.researchGrounding, current.researchGrounding),
+    historyTokenBudgets: { ...current.historyTokenBudgets, ...numberTable('historyTokenBudget', imported.historyTokenBudgets) },
+    autoRepair: typeof imported.autoRepair === 'boolean' ? imported.autoRepair : current.autoRepair,
+    maxRepairIterations: numberOr('maxRepairIterations', imported.maxRepairIterations, current.maxRepairIterations),
+    engineProviders: perRole(imported.engineProviders, (entry, fallback) => oneOf(PROVIDERS, entry, fallback), current.engineProviders),
+    localEndpoint: {
+      ...current.localEndpoint,
+      baseUrl: isName(imported.localEndpoint?.baseUrl) ? imported.localEndpoint.baseUrl.trim() : current.localEndpoint.baseUrl
+    },
+    cassetteMode: oneOf(CASSETTE_MODES, imported.cassetteMode, current.cassetteMode),
+    agentTimeouts: perRole(imported.agentTimeouts, (entry, fallback) => numberOr('agentTimeout', entry, fallback), current.agentTimeouts),
+    maxRetries: numberOr('maxRetries', imported.maxRetries, current.maxRetries),
+    modelPrices: { ...current.modelPrices, ...priceTable(imported.modelPrices) },
+    spendLimits: {
+      soft: numberOr('spendLimit', spend.soft, current.spendLimits.soft),
+      hard: numberOr('spendLimit', spend.hard, current.spendLimits.hard)
+    }
+  };
+};
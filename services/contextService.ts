@@ -0,0 +1,125 @@
+
+import { ContextFileRef, ProjectFile } from "../types";
+import { estimateTokens } from "./conversationService";
+import { importSpecifiers, resolveImport, tryNormalizePath } from "./pathService";
+
+// Input token limits per model; unknown custom models fall back to the smallest preset
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gemini-3-pro-preview': 1048576,
+  'gemini-3-flash-preview': 1048576,
+  'gemini-flash-lite-latest': 1048576
+};
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+// Share of the window reserved for file contents; the rest covers instructions, history and the answer
+const WORKSPACE_SHARE = 0.25;
+
+// Truncated files keep at least this many tokens of their head, otherwise they are listed by name only
+const MIN_TRUNCATED_TOKENS = 400;
+
+const SCORE = {
+  mentioned: 100,
+  modified: 80,
+  neighbour: 50,
+  other: 10
+};
+
+export interface WorkspaceContext {
+  text: string;
+  files: ContextFileRef[];
+}
+
+export const contextWindowFor = (model: string) => MODEL_CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW;
+
+export const workspaceTokenBudget = (model: string) => Math.floor(contextWindowFor(model) * WORKSPACE_SHARE);
+
+// Undirected import graph keyed by normalized path. Specifiers resolve exactly as the test runner and preview resolve them:
+// .js imports reach their .ts sources, and ones that climb above the project root link nothing
+export const buildImportGraph = (files: ProjectFile[]): Map<string, Set<string>> => {
+  const names = new Set(files.map(f => tryNormalizePath(f.name)));
+  const graph = new Map<string, Set<string>>();
+  names.forEach(n => graph.set(n, new Set()));
+  files.forEach(f => {
+    const from = tryNormalizePath(f.name);
+    importSpecifiers(f.content).forEach(spec => {
+      const target = resolveImport(name => names.has(name), from, spec);
+      if (!target || target === from) return;
+      graph.get(from)!.add(target);
+      graph.get(target)!.add(from);
+    });
+  });
+  return graph;
+};
+
+const isMentioned = (prompt: string, fileName: string) => {
+  const path = tryNormalizePath(fileName);
+  const base = path.split('/').pop()!;
+  const lower = prompt.toLowerCase();
+  return lower.includes(path.toLowerCase()) || new RegExp(`(^|[^\\w.-])${base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^\\w-])`, 'i').test(prompt);
+};
+
+// Ranks files named in the prompt, then files being modified, then their import neighbours, then the rest,
+// and adds them whole in rank order until the model's budget runs out
+export const buildWorkspaceContext = (
+  files: ProjectFile[],
+  prompt: string,
+  model: string,
+  modifiedFiles: string[] = []
+): WorkspaceContext => {
+  if (files.length === 0) return { text: 'No files yet.', files: [] };
+
+  const graph = buildImportGraph(files);
+  const modified = new Set(modifiedFiles.map(tryNormalizePath));
+  const scores = new Map<string, { score: number; reason: ContextFileRef['reason'] }>();
+
+  files.forEach(f => {
+    const path = tryNormalizePath(f.name);
+    if (isMentioned(prompt, f.name)) scores.set(path, { score: SCORE.mentioned, reason: 'mentioned' });
+    else if (modified.has(path)) scores.set(path, { score: SCORE.modified, reason: 'modified' });
+  });
+  Array.from(scores.keys()).forEach(focus => {
+    graph.get(focus)?.forEach(neighbour => {
+      if (!scores.has(neighbour)) scores.set(neighbour, { score: SCORE.neighbour, reason: 'import' });
+    });
+  });
+
+  const ranked = files
+    .map((f, idx) => ({ file: f, idx, ...(scores.get(tryNormalizePath(f.name)) || { score: SCORE.other, reason: 'workspace' as const }) }))
+    // Later files in the list were usually touched more recently, so they win ties
+    .sort((a, b) => b.score - a.score || b.idx - a.idx);
+
+  let remaining = workspaceTokenBudget(model);
+  const included: ContextFileRef[] = [];
+  const sections: string[] = [];
+
+  for (const entry of ranked) {
+    const header = `=== File: ${entry.file.name} (${entry.file.language}) ===`;
+    const tokens = estimateTokens(entry.file.content) + estimateTokens(header);
+    if (tokens <= remaining) {
+      sections.push(`${header}\n${entry.file.content}`);
+      included.push({ name: entry.file.name, tokens, truncated: false, reason: entry.reason });
+      remaining -= tokens;
+    } else if (entry.reason !== 'workspace' && remaining >= MIN_TRUNCATED_TOKENS) {
+      // Only relevant files are worth a partial view; unranked ones are skipped so smaller files still fit
+      const lines = entry.file.content.split('\n');
+      const keepChars = (remaining - estimateTokens(header) - 20) * 4;
+      let kept = 0;
+      let count = 0;
+      while (count < lines.length && kept + lines[count].length + 1 <= keepChars) kept += lines[count++].length + 1;
+      sections.push(`${header}\n${lines.slice(0, count).join('\n')}\n... [truncated ${lines.length - count} more lines]`);
+      included.push({ name: entry.file.name, tokens: remaining, truncated: true, reason: entry.reason });
+      remaining = 0;
+    }
+  }
+
+  const includedNames = new Set(included.map(f => f.name));
+  const omitted = files.filter(f => !includedNames.has(f.name)).map(f => f.name);
+
+  const text = [
+    `Workspace files (${files.length}): ${files.map(f => f.name).join(', ')}`,
+    ...sections,
+    omitted.length ? `Files omitted for context budget (contents not shown, do not rewrite them blindly): ${omitted.join(', ')}` : ''
+  ].filter(Boolean).join('\n\n');
+
+  return { text, files: included };
+};
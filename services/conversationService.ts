@@ -0,0 +1,64 @@
+
+import { ChatMessage, HistorySummary } from "../types";
+import { LLMTurn } from "./llmProvider";
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 32000;
+
+// Recent turns are kept verbatim up to this share of the budget once compaction kicks in
+const RETAINED_SHARE = 0.5;
+
+// Rough heuristic (~4 characters per token) that is good enough for budgeting without a tokenizer round trip
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const messageTokens = (m: ChatMessage) => estimateTokens(m.content) + 4;
+
+// Messages not yet folded into the summary; in-flight streams are never part of the history
+export const unsummarizedMessages = (messages: ChatMessage[], summary: HistorySummary | null): ChatMessage[] => {
+  const settled = messages.filter(m => !m.isStreaming);
+  if (!summary) return settled;
+  const cut = settled.findIndex(m => m.id === summary.throughMessageId);
+  return cut >= 0 ? settled.slice(cut + 1) : settled;
+};
+
+export interface CompactionPlan {
+  keep: ChatMessage[];
+  toSummarize: ChatMessage[];
+}
+
+// Splits the history so the kept tail fits the budget; older turns are handed to the summarizer
+export const planCompaction = (messages: ChatMessage[], summary: HistorySummary | null, budget: number): CompactionPlan => {
+  const summaryTokens = summary ? estimateTokens(summary.text) : 0;
+  const total = messages.reduce((sum, m) => sum + messageTokens(m), summaryTokens);
+  if (total <= budget) return { keep: messages, toSummarize: [] };
+
+  const retainBudget = budget * RETAINED_SHARE;
+  let kept = 0;
+  let split = messages.length;
+  while (split > 0 && kept + messageTokens(messages[split - 1]) <= retainBudget) {
+    kept += messageTokens(messages[split - 1]);
+    split--;
+  }
+  return { keep: messages.slice(split), toSummarize: messages.slice(0, split) };
+};
+
+// Integration notices are system messages in the UI but providers only know user/model turns
+const toTurn = (m: ChatMessage): LLMTurn => m.role === 'assistant'
+  ? { role: 'model', text: m.content }
+  : { role: 'user', text: m.role === 'system' ? `[Workspace event] ${m.content}` : m.content };
+
+// Consecutive same-role turns are merged so the conversation strictly alternates
+export const mergeTurns = (turns: LLMTurn[]): LLMTurn[] =>
+  turns.reduce<LLMTurn[]>((acc, turn) => {
+    const last = acc[acc.length - 1];
+    if (last && last.role === turn.role) {
+      last.text = `${last.text}\n\n${turn.text}`;
+    } else {
+      acc.push({ ...turn });
+    }
+    return acc;
+  }, []);
+
+export const buildHistoryContents = (messages: ChatMessage[]): LLMTurn[] => mergeTurns(messages.map(toTurn));
+
+export const formatTranscript = (messages: ChatMessage[]) =>
+  messages.map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n\n');
@@ -0,0 +1,159 @@
+
+export type DiffLineType = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers; absent on the side the line does not exist in
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export type DiffSegment =
+  | { kind: 'context'; lines: DiffLine[] }
+  | { kind: 'collapsed'; lines: DiffLine[] }
+  | { kind: 'change'; lines: DiffLine[]; hunk: number };
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+const splitLines = (text: string) => text.replace(/\r\n/g, '\n').split('\n');
+
+// Past this many edits the middle section becomes one replace-all hunk; the trace grows with the square of the distance
+const MAX_EDIT_DISTANCE = 2000;
+
+// Myers O(ND) shortest edit script over the already-trimmed middle section
+const myers = (a: string[], b: string[]): DiffLineType[] => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] keeps only diagonals -(d + 1)..d + 1 as they stood before step d, the ones backtracking reads
+  const trace: Int32Array[] = [];
+  const before = (d: number, k: number) => trace[d][k + d + 1];
+  let reached = false;
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        reached = true;
+        break outer;
+      }
+    }
+  }
+  if (!reached) return [...Array<DiffLineType>(n).fill('remove'), ...Array<DiffLineType>(m).fill('add')];
+
+  const ops: DiffLineType[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && before(d, k - 1) < before(d, k + 1))) ? k + 1 : k - 1;
+    const prevX = before(d, prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) { ops.push('equal'); x--; y--; }
+    if (d > 0) ops.push(x === prevX ? 'add' : 'remove');
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+};
+
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText === '' ? [] : splitLines(oldText);
+  const b = newText === '' ? [] : splitLines(newText);
+
+  // Trimming the common prefix/suffix keeps the edit graph small for typical localized edits
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const middleOps = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  const ops: DiffLineType[] = [
+    ...Array<DiffLineType>(prefix).fill('equal'),
+    ...middleOps,
+    ...Array<DiffLineType>(suffix).fill('equal')
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldIdx = 0;
+  let newIdx = 0;
+  for (const op of ops) {
+    if (op === 'equal') {
+      lines.push({ type: 'equal', text: a[oldIdx], oldNumber: oldIdx + 1, newNumber: newIdx + 1 });
+      oldIdx++; newIdx++;
+    } else if (op === 'remove') {
+      lines.push({ type: 'remove', text: a[oldIdx], oldNumber: oldIdx + 1 });
+      oldIdx++;
+    } else {
+      lines.push({ type: 'add', text: b[newIdx], newNumber: newIdx + 1 });
+      newIdx++;
+    }
+  }
+  return lines;
+};
+
+export const diffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter(l => l.type === 'add').length,
+  removed: lines.filter(l => l.type === 'remove').length
+});
+
+// Groups lines into change blocks separated by unchanged runs; runs longer than 2 * context are collapsed
+export const segmentDiff = (lines: DiffLine[], context = 3): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let hunk = 0;
+  let i = 0;
+  while (i < lines.length) {
+    const isChange = lines[i].type !== 'equal';
+    let j = i;
+    while (j < lines.length && (lines[j].type !== 'equal') === isChange) j++;
+    const run = lines.slice(i, j);
+
+    if (isChange) {
+      segments.push({ kind: 'change', lines: run, hunk: hunk++ });
+    } else {
+      const leading = i === 0 ? 0 : context;
+      const trailing = j === lines.length ? 0 : context;
+      if (run.length > leading + trailing + 1) {
+        if (leading) segments.push({ kind: 'context', lines: run.slice(0, leading) });
+        segments.push({ kind: 'collapsed', lines: run.slice(leading, run.length - trailing) });
+        if (trailing) segments.push({ kind: 'context', lines: run.slice(run.length - trailing) });
+      } else {
+        segments.push({ kind: 'context', lines: run });
+      }
+    }
+    i = j;
+  }
+  return segments;
+};
+
+// The line break a file uses; diffing compares lines without it
+export const lineEndingOf = (text: string) => text.includes('\r\n') ? '\r\n' : '\n';
+
+// Rebuilds the file keeping added lines of accepted hunks and removed lines of rejected ones.
+// A hunk is a maximal run of added/removed lines; indices match the `hunk` field of change segments
+export const mergeHunks = (lines: DiffLine[], accepted: (hunk: number) => boolean, lineEnding = '\n'): string => {
+  const result: string[] = [];
+  let hunk = -1;
+  lines.forEach((line, idx) => {
+    if (line.type === 'equal') {
+      result.push(line.text);
+      return;
+    }
+    if (idx === 0 || lines[idx - 1].type === 'equal') hunk++;
+    const keep = accepted(hunk) ? line.type === 'add' : line.type === 'remove';
+    if (keep) result.push(line.text);
+  });
+  return result.join(lineEnding);
+};
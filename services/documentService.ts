@@ -0,0 +1,218 @@
+
+import { DocumentKind, LocalDocument, ResearchSource } from "../types";
+
+// Passages are sized so a handful fit comfortably into one research prompt
+const PASSAGE_CHARS = 1200;
+
+// BM25 parameters; the usual defaults for short passages
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(['the', 'and', 'for', 'are', 'but', 'not', 'you', 'with', 'this', 'that', 'from', 'have', 'was', 'were', 'can', 'how', 'what', 'when', 'which', 'into', 'its', 'our', 'use', 'does', 'should', 'would', 'there', 'their', 'then', 'than', 'them', 'they', 'will', 'your', 'about']);
+
+export interface DocumentPassage {
+  docId: string;
+  fileName: string;
+  title: string;
+  // Nearest heading above the passage, when the source has headings
+  heading?: string;
+  index: number;
+  text: string;
+}
+
+export interface RetrievedPassage extends DocumentPassage {
+  score: number;
+}
+
+export const DOCUMENT_EXTENSIONS = ['.md', '.markdown', '.mdx', '.html', '.htm', '.txt', '.rst', '.json', '.yaml', '.yml'];
+
+export const documentKindFor = (fileName: string): DocumentKind => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'md' || ext === 'markdown' || ext === 'mdx') return 'markdown';
+  if (ext === 'html' || ext === 'htm') return 'html';
+  if (ext === 'json') return 'json';
+  return 'text';
+};
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'LI', 'TR', 'PRE', 'BLOCKQUOTE', 'TABLE', 'UL', 'OL', 'DL', 'DT', 'DD', 'BR', 'HR']);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NAV', 'NOSCRIPT', 'SVG', 'TEMPLATE', 'HEAD']);
+
+// Flattens HTML to text, keeping headings as markdown so passages can be labelled
+const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  let out = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out += node.textContent || '';
+      return;
+    }
+    if (!(node instanceof Element) || SKIPPED_TAGS.has(node.tagName)) return;
+    const heading = /^H([1-6])$/.exec(node.tagName);
+    if (heading) {
+      out += `\n\n${'#'.repeat(Number(heading[1]))} ${(node.textContent || '').trim()}\n\n`;
+      return;
+    }
+    const isBlock = BLOCK_TAGS.has(node.tagName);
+    if (isBlock) out += '\n\n';
+    node.childNodes.forEach(walk);
+    if (isBlock) out += '\n\n';
+  };
+  walk(doc.body);
+  return out.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// Turns an imported file into plain text the indexer can chunk
+export const extractDocumentText = (fileName: string, raw: string) => {
+  const kind = documentKindFor(fileName);
+  if (kind === 'html') return htmlToText(raw);
+  if (kind === 'json') {
+    try {
+      return JSON.stringify(JSON.parse(raw), null, 2);
+    } catch {
+      return raw;
+    }
+  }
+  return raw.replace(/\r\n?/g, '\n');
+};
+
+export const createDocument = (projectId: string, fileName: string, raw: string): LocalDocument => {
+  const kind = documentKindFor(fileName);
+  const text = extractDocumentText(fileName, raw);
+  const heading = /^#{1,2}\s+(.+)$/m.exec(text)?.[1]?.trim();
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    projectId,
+    fileName,
+    title: heading || fileName,
+    kind,
+    text,
+    importedAt: Date.now()
+  };
+};
+
+// Splits long text on line boundaries so no passage exceeds the size limit
+const splitLong = (block: string): string[] => {
+  if (block.length <= PASSAGE_CHARS) return [block];
+  const parts: string[] = [];
+  let current = '';
+  for (const line of block.split('\n')) {
+    if (current && current.length + line.length + 1 > PASSAGE_CHARS) {
+      parts.push(current);
+      current = '';
+    }
+    // A single overlong line is cut hard
+    for (let i = 0; i < line.length; i += PASSAGE_CHARS) {
+      const piece = line.slice(i, i + PASSAGE_CHARS);
+      current = current ? `${current}\n${piece}` : piece;
+      if (current.length >= PASSAGE_CHARS) {
+        parts.push(current);
+        current = '';
+      }
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+// Paragraph-packed passages that never straddle a markdown heading
+export const chunkDocument = (doc: LocalDocument): DocumentPassage[] => {
+  const passages: DocumentPassage[] = [];
+  let heading: string | undefined;
+  let buffer = '';
+  const flush = () => {
+    if (buffer.trim()) {
+      splitLong(buffer.trim()).forEach(text => passages.push({
+        docId: doc.id, fileName: doc.fileName, title: doc.title, heading, index: passages.length, text
+      }));
+    }
+    buffer = '';
+  };
+
+  for (const block of doc.text.split(/\n{2,}/)) {
+    const headingMatch = /^#{1,6}\s+(.+)$/.exec(block.trim());
+    if (headingMatch && !block.trim().includes('\n')) {
+      flush();
+      heading = headingMatch[1].trim();
+      continue;
+    }
+    if (buffer && buffer.length + block.length > PASSAGE_CHARS) flush();
+    buffer = buffer ? `${buffer}\n\n${block}` : block;
+  }
+  flush();
+  return passages;
+};
+
+// Lowercased words plus the parts of camelCase and snake_case identifiers, so "useEffect" also matches "effect"
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const word of text.split(/[^\p{L}\p{N}_]+/u)) {
+    if (!word) continue;
+    const lower = word.toLowerCase();
+    if (lower.length > 1 && !STOPWORDS.has(lower)) tokens.push(lower);
+    const parts = word.split(/_|(?<=[a-z0-9])(?=[A-Z])/).map(p => p.toLowerCase()).filter(p => p.length > 1 && p !== lower && !STOPWORDS.has(p));
+    tokens.push(...parts);
+  }
+  return tokens;
+};
+
+export class Bm25Index {
+  private termFreqs: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private docFreq = new Map<string, number>();
+  private avgLength = 0;
+
+  constructor(private readonly passages: DocumentPassage[]) {
+    passages.forEach(passage => {
+      const freqs = new Map<string, number>();
+      const tokens = tokenize(`${passage.heading || ''} ${passage.text}`);
+      tokens.forEach(t => freqs.set(t, (freqs.get(t) || 0) + 1));
+      freqs.forEach((_count, term) => this.docFreq.set(term, (this.docFreq.get(term) || 0) + 1));
+      this.termFreqs.push(freqs);
+      this.lengths.push(tokens.length);
+    });
+    this.avgLength = this.lengths.reduce((a, b) => a + b, 0) / (this.lengths.length || 1);
+  }
+
+  get size() {
+    return this.passages.length;
+  }
+
+  search(query: string, limit = 6): RetrievedPassage[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const n = this.passages.length;
+    const scored: RetrievedPassage[] = [];
+    this.termFreqs.forEach((freqs, idx) => {
+      let score = 0;
+      for (const term of terms) {
+        const tf = freqs.get(term);
+        if (!tf) continue;
+        const df = this.docFreq.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * this.lengths[idx] / (this.avgLength || 1)));
+      }
+      if (score > 0) scored.push({ ...this.passages[idx], score });
+    });
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+export const buildDocumentIndex = (docs: LocalDocument[]) => new Bm25Index(docs.flatMap(chunkDocument));
+
+// Local passages are cited as doc:// URIs so they sit alongside web sources in the research library
+export const passageSource = (passage: DocumentPassage): ResearchSource => ({
+  title: passage.heading && passage.heading !== passage.title ? `${passage.title} § ${passage.heading}` : passage.title,
+  uri: `doc://${passage.fileName}#${passage.index + 1}`
+});
+
+export const isLocalSource = (source: ResearchSource) => source.uri.startsWith('doc://');
+
+// Numbered passages for the research prompt; the model cites them as [D1], [D2], ...
+export const formatPassages = (passages: RetrievedPassage[]) => passages
+  .map((p, idx) => `[D${idx + 1}] ${p.fileName}${p.heading ? ` — ${p.heading}` : ''}\n${p.text}`)
+  .join('\n\n');
+
+// Passages the findings actually cite; all of them when the model cited none explicitly
+export const citedPassages = (text: string, passages: RetrievedPassage[]) => {
+  const cited = passages.filter((_p, idx) => new RegExp(`\\[D${idx + 1}\\]`).test(text));
+  return cited.length > 0 ? cited : passages;
+};
@@ -0,0 +1,123 @@
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { LLMProvider, LLMRequest, LLMResponse, LLMToolCall, LLMUsage, ProviderError, StreamDelta } from "./llmProvider";
+
+export class GeminiProvider implements LLMProvider {
+  readonly label = 'Gemini';
+  readonly capabilities = { webSearch: true, thinking: true };
+
+  private getAI() {
+    // Always use process.env.API_KEY directly as per guidelines
+    return new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+  }
+
+  // Apply thinking budget for Gemini 3 and 2.5 series models with correct limits as per guidelines
+  private thinkingConfigFor(model: string, includeThoughts: boolean) {
+    if (!(model.includes('pro') || model.includes('gemini-3') || model.includes('gemini-2.5'))) return undefined;
+    const budget = model.includes('pro') ? 32768 : 24576;
+    return includeThoughts ? { thinkingBudget: budget, includeThoughts: true } : { thinkingBudget: budget };
+  }
+
+  private buildParams(request: LLMRequest) {
+    const config: any = {};
+    if (request.system) config.systemInstruction = request.system;
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+    if (request.thinking) {
+      const thinkingConfig = this.thinkingConfigFor(request.model, request.thinking.includeThoughts);
+      if (thinkingConfig) config.thinkingConfig = thinkingConfig;
+    }
+    if (request.responseSchema) {
+      config.responseMimeType = 'application/json';
+      config.responseJsonSchema = request.responseSchema;
+    }
+    const tools: any[] = [];
+    if (request.webSearch) tools.push({ googleSearch: {} });
+    if (request.tools?.length) {
+      tools.push({ functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) });
+    }
+    if (tools.length) config.tools = tools;
+    if (request.signal) config.abortSignal = request.signal;
+
+    return {
+      model: request.model,
+      contents: request.turns.map(t => ({ role: t.role, parts: [{ text: t.text }] })),
+      config
+    };
+  }
+
+  private usageOf(response: GenerateContentResponse): LLMUsage | undefined {
+    const meta = response.usageMetadata;
+    if (!meta) return undefined;
+    return {
+      promptTokens: meta.promptTokenCount || 0,
+      outputTokens: meta.candidatesTokenCount || 0,
+      thinkingTokens: meta.thoughtsTokenCount || 0,
+      cachedTokens: meta.cachedContentTokenCount || 0
+    };
+  }
+
+  private toolCallsOf(response: GenerateContentResponse): LLMToolCall[] {
+    return (response.functionCalls || [])
+      .filter(call => call.name)
+      .map(call => ({ name: call.name!, args: (call.args as Record<string, any>) || {} }));
+  }
+
+  // Extract grounding sources as required by guidelines for Google Search grounding
+  private sourcesOf(response: GenerateContentResponse) {
+    return (response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+      .map(chunk => chunk.web)
+      .filter((web): web is { uri: string; title?: string } => !!web?.uri)
+      .map(web => ({ title: web.title || web.uri, uri: web.uri }));
+  }
+
+  private wrapError(error: any): ProviderError {
+    return new ProviderError(error?.message || String(error), this.label, typeof error?.status === 'number' ? error.status : undefined);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      const response = await this.getAI().models.generateContent(this.buildParams(request));
+      return {
+        text: response.text || '',
+        toolCalls: this.toolCallsOf(response),
+        sources: this.sourcesOf(response),
+        usage: this.usageOf(response)
+      };
+    } catch (error: any) {
+      if (request.signal?.aborted) throw request.signal.reason;
+      throw this.wrapError(error);
+    }
+  }
+
+  // Forwards each part as it arrives and resolves with the full answer once the stream ends
+  async stream(request: LLMRequest, onChunk?: (delta: StreamDelta) => void): Promise<LLMResponse> {
+    try {
+      const stream = await this.getAI().models.generateContentStream(this.buildParams(request));
+      const result: LLMResponse = { text: '', toolCalls: [], sources: [] };
+      for await (const chunk of stream) {
+        request.signal?.throwIfAborted();
+        for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+          if (!part.text) continue;
+          if (part.thought) {
+            onChunk?.({ thought: part.text });
+          } else {
+            result.text += part.text;
+            onChunk?.({ text: part.text });
+          }
+        }
+        result.toolCalls.push(...this.toolCallsOf(chunk));
+        result.sources.push(...this.sourcesOf(chunk));
+        // Usage metadata is cumulative; the last chunk carries the totals
+        const usage = this.usageOf(chunk);
+        if (usage) {
+          result.usage = usage;
+          request.onUsage?.(usage);
+        }
+      }
+      return result;
+    } catch (error: any) {
+      if (request.signal?.aborted) throw request.signal.reason;
+      throw this.wrapError(error);
+    }
+  }
+}
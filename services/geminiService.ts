@@ -1,11 +1,87 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { SystemConfig } from "../types";
+import { AgentRole, ChatMessage, EngineRole, SystemConfig, TaskPlan, ValidationVerdict } from "../types";
+import { formatTranscript, mergeTurns } from "./conversationService";
+import { VERDICT_SCHEMA, parseVerdict, unavailableVerdict } from "./validationService";
+import { CHANGESET_SCHEMA } from "./changesetService";
+import { DELEGATE_TOOL, MAX_RESEARCH_QUERIES, RESEARCH_TOOL } from "./pipelineService";
+import { LLMProvider, LLMTurn, StreamDelta } from "./llmProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { CassetteMissError, RecordingProvider, ReplayProvider, cassetteStore } from "./cassetteService";
+import { RetrievedPassage, citedPassages, formatPassages, passageSource } from "./documentService";
+import { AgentTimeoutError, CancelledError, RetryingProvider } from "./retryService";
+import { MeteredProvider, SpendLimitError, UsageScope, formatCost, usageStore } from "./usageService";
+
+export type { StreamDelta } from "./llmProvider";
+
+export interface ConductOptions {
+  // Prior turns of the thread, oldest first
+  history?: LLMTurn[];
+  // Summary of turns compacted out of the history
+  historySummary?: string;
+  // Findings the user pinned in the research library
+  pinnedResearch?: string;
+  // Offer the request_research tool; off for follow-up rounds that already carry findings
+  allowResearch?: boolean;
+  onChunk?: (delta: StreamDelta) => void;
+  signal?: AbortSignal;
+  // Project and run the call's token usage is billed to
+  usage?: UsageScope;
+}
+
+// Agent named in retry notices for each engine role
+const ROLE_AGENTS: Record<EngineRole, AgentRole> = {
+  conductor: 'Conductor',
+  research: 'Research Lead',
+  coder: 'Coder',
+  validator: 'Validator'
+};
+
+// Failures that must reach the pipeline instead of degrading into a fallback answer
+const isFatal = (error: unknown) => error instanceof CassetteMissError || error instanceof CancelledError || error instanceof SpendLimitError;
+
+// Use gemini-flash-lite-latest for high-speed tasks as per guidelines; other providers keep the configured model
+export const conductorModelFor = (mode: 'precision' | 'speed', config: SystemConfig) =>
+  mode === 'precision' || config.engineProviders.conductor !== 'gemini' ? config.conductorModel : 'gemini-flash-lite-latest';
 
 export class TrinityService {
-  private getAI() {
-    // Always use process.env.API_KEY directly as per guidelines
-    return new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+  private readonly gemini = new GeminiProvider();
+
+  // Each agent role runs on the provider chosen for it in the System Engines settings, under that role's time limit;
+  // calls with a usage scope are metered against the project's spend limits, except replays, which cost nothing
+  private providerFor(role: EngineRole, config: SystemConfig, onLog: (log: any) => void, signal?: AbortSignal, scope?: UsageScope): LLMProvider {
+    const live = config.engineProviders[role] === 'openai-compatible'
+      ? new OpenAICompatibleProvider(config.localEndpoint)
+      : this.gemini;
+    const inner = config.cassetteMode === 'replay'
+      ? new ReplayProvider(cassetteStore, live.capabilities)
+      : config.cassetteMode === 'record' ? new RecordingProvider(live, cassetteStore) : live;
+    // Replays cost nothing; live calls are metered per attempt, before retries and time limits apply
+    const metered = !scope || config.cassetteMode === 'replay' ? inner : new MeteredProvider(inner, usageStore, {
+      scope,
+      role,
+      prices: config.modelPrices,
+      limits: config.spendLimits,
+      onSoftLimit: spent => onLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'System',
+        message: `Project spend ${formatCost(spent)} is past the soft limit of ${formatCost(config.spendLimits.soft)}.`,
+        type: 'warning'
+      })
+    });
+    return new RetryingProvider(metered, {
+      timeoutMs: config.agentTimeouts[role] * 1000,
+      maxRetries: config.maxRetries,
+      signal,
+      onRetry: ({ attempt, maxAttempts, delayMs, error }) => onLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: ROLE_AGENTS[role],
+        message: `${error.provider} returned HTTP ${error.status} on attempt ${attempt} of ${maxAttempts}; retrying in ${(delayMs / 1000).toFixed(1)}s...`,
+        type: 'warning'
+      })
+    });
   }
 
   async conduct(
@@ -13,62 +89,116 @@ export class TrinityService {
     context: string, 
     mode: 'precision' | 'speed', 
     onLog: (log: any) => void,
-    config: SystemConfig
+    config: SystemConfig,
+    options: ConductOptions = {}
   ) {
-    const ai = this.getAI();
+    const { history = [], historySummary, pinnedResearch, allowResearch = false, onChunk, signal, usage } = options;
+    const provider = this.providerFor('conductor', config, onLog, signal, usage);
     const isPrecision = mode === 'precision';
-    // Use gemini-flash-lite-latest for high-speed tasks as per guidelines
-    const model = isPrecision ? config.conductorModel : 'gemini-flash-lite-latest';
+    const model = conductorModelFor(mode, config);
     
     onLog({
       id: Math.random().toString(),
       timestamp: Date.now(),
       agent: 'Conductor',
-      message: `Initiating ${isPrecision ? 'High-Reasoning' : 'High-Speed'} orchestration via ${model}...`,
+      message: `Initiating ${isPrecision ? 'High-Reasoning' : 'High-Speed'} orchestration via ${model} (${provider.label})...`,
       type: 'info'
     });
 
-    const genConfig: any = {
-      temperature: 0.7,
-      systemInstruction: `You are the "Conductor" of the Trinity Agent System.
-      Current Workspace Context: ${context}
+    const system = `You are the "Conductor" of the Trinity Agent System.
+      Current Workspace Context (file contents are authoritative; preserve code you were not asked to change):
+      ${context}
+      ${historySummary ? `Summary of earlier conversation (older turns were compacted): ${historySummary}` : ''}
+      ${pinnedResearch ? `Pinned research (curated by the user; treat as authoritative reference):\n${pinnedResearch}` : ''}
       
       Your goal is to fulfill user requests by orchestrating your sub-agents:
       1. Research Team: Used for technical grounding.
       2. Coder: Synthesizes implementations.
       3. Validator: Verifies logic.
 
-      When proposing a code change, you MUST respond with a JSON block in this exact format:
-      \`\`\`json
-      {
-        "action": "propose_code",
-        "fileName": "example.ts",
-        "content": "the actual code",
-        "description": "why this change was made"
-      }
-      \`\`\`
-      Keep conversational text professional and concise.`
-    };
-
-    // Apply thinking budget for Gemini 3 and 2.5 series models with correct limits as per guidelines
-    if (isPrecision && (model.includes('pro') || model.includes('gemini-3') || model.includes('gemini-2.5'))) {
-      const budget = model.includes('pro') ? 32768 : 24576;
-      genConfig.thinkingConfig = { thinkingBudget: budget };
+      You do not write code yourself. When the request needs code changes, explain your approach briefly and then
+      call the delegate_to_coder function exactly once with the task plan. If function calling is unavailable, write the
+      same plan as a JSON object of the form {"action": "delegate_to_coder", "plan": {...}} instead.
+      Cover every file the feature needs (implementation, types, tests) in one plan; the result is applied atomically.
+      Use "create" only for files absent from the workspace and "modify" only for files that exist.
+      ${allowResearch ? `If the request depends on external technical facts you are unsure of, call request_research with up to ${MAX_RESEARCH_QUERIES} focused
+      queries instead of planning; the findings arrive in a follow-up turn.` : ''}
+      Keep conversational text professional and concise.`;
+
+    try {
+      const response = await provider.stream({
+        operation: 'conduct',
+        model,
+        system,
+        turns: mergeTurns([...history, { role: 'user', text: prompt }]),
+        temperature: 0.7,
+        tools: allowResearch ? [DELEGATE_TOOL, RESEARCH_TOOL] : [DELEGATE_TOOL],
+        ...(isPrecision ? { thinking: { includeThoughts: true } } : {})
+      }, onChunk);
+
+      return { text: response.text, toolCalls: response.toolCalls };
+    } catch (error: any) {
+      onLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'Conductor',
+        message: `API Exception: ${error.message}`,
+        type: 'error'
+      });
+      throw error;
     }
+  }
+
+  async code(
+    plan: TaskPlan,
+    context: string,
+    mode: 'precision' | 'speed',
+    config: SystemConfig,
+    onLog: (log: any) => void,
+    // Validator feedback on a previous attempt, for repair passes
+    feedback?: string,
+    signal?: AbortSignal,
+    usage?: UsageScope
+  ) {
+    const provider = this.providerFor('coder', config, onLog, signal, usage);
+    const model = config.coderModel;
+    onLog({
+      id: Math.random().toString(),
+      timestamp: Date.now(),
+      agent: 'Coder',
+      message: feedback
+        ? `Revising changeset against Validator feedback via ${model}...`
+        : `Synthesizing ${plan.tasks.length} artifact(s) via ${model}...`,
+      type: 'info'
+    });
+
+    const system = `You are the "Coder" of the Trinity Agent System. You receive a task plan from the Conductor
+      and produce complete, working file contents for it.
+      Current Workspace Context (file contents are authoritative; preserve code the plan does not ask you to change):
+      ${context}
+
+      Respond with a propose_changeset object matching the response schema: one entry per file, with
+      "create" and "modify" carrying the complete file content, "rename" carrying newFileName, and "delete" carrying neither.
+      Always emit full file contents, never partial snippets or placeholders.
+      File paths are relative to the project root and use "/" separators (e.g. "src/lib/util.ts"); absolute paths and ".." segments are rejected.`;
 
     try {
-      const response = await ai.models.generateContent({
+      const response = await provider.generate({
+        operation: 'code',
         model,
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: genConfig
+        system,
+        turns: [{ role: 'user', text: `Task plan from the Conductor:\n${JSON.stringify(plan, null, 2)}${feedback ? `\n\n${feedback}` : ''}` }],
+        temperature: 0.2,
+        responseSchema: CHANGESET_SCHEMA,
+        ...(mode === 'precision' ? { thinking: { includeThoughts: false } } : {})
       });
 
-      return response.text;
+      return response.text || '';
     } catch (error: any) {
       onLog({
         id: Math.random().toString(),
         timestamp: Date.now(),
-        agent: 'Conductor',
+        agent: 'Coder',
         message: `API Exception: ${error.message}`,
         type: 'error'
       });
@@ -76,23 +206,40 @@ export class TrinityService {
     }
   }
 
-  async research(query: string, config: SystemConfig, onLog: (log: any) => void) {
-    const ai = this.getAI();
+  // passages: local document excerpts retrieved for this query, cited back as doc:// sources
+  async research(query: string, config: SystemConfig, onLog: (log: any) => void, passages: RetrievedPassage[] = [], signal?: AbortSignal, usage?: UsageScope) {
+    const provider = this.providerFor('research', config, onLog, signal, usage);
+    const useWeb = config.researchGrounding !== 'local' && provider.capabilities.webSearch;
+    const grounding = [useWeb ? 'web search' : '', passages.length ? `${passages.length} local passage(s)` : ''].filter(Boolean).join(' + ');
+    if (config.researchGrounding !== 'web' && passages.length === 0) {
+      onLog({
+        id: Math.random().toString(),
+        timestamp: Date.now(),
+        agent: 'Research Lead',
+        message: `No local document passages matched: ${query}`,
+        type: 'warning'
+      });
+    }
     onLog({
       id: Math.random().toString(),
       timestamp: Date.now(),
       agent: 'Research Lead',
-      message: `Triggering technical search grounding for: ${query}`,
-      type: 'info'
+      message: grounding
+        ? `Triggering technical research grounded in ${grounding} for: ${query}`
+        : `${provider.label} engine has no web search; researching from model knowledge: ${query}`,
+      type: grounding ? 'info' : 'warning'
     });
 
+    const localContext = passages.length
+      ? `\n\nLocal documentation excerpts (cite them inline as [D1], [D2], ... wherever you rely on them; prefer them over general knowledge):\n${formatPassages(passages)}`
+      : '';
+
     try {
-      const response = await ai.models.generateContent({
+      const response = await provider.generate({
+        operation: 'research',
         model: config.researchModel,
-        contents: [{ role: 'user', parts: [{ text: `Perform deep technical research for: ${query}. Focus on implementation details, API patterns, and potential edge cases.` }] }],
-        config: {
-          tools: [{ googleSearch: {} }]
-        }
+        turns: [{ role: 'user', text: `Perform deep technical research for: ${query}. Focus on implementation details, API patterns, and potential edge cases.${localContext}` }],
+        webSearch: useWeb
       });
 
       onLog({
@@ -103,19 +250,50 @@ export class TrinityService {
         type: 'success'
       });
 
-      // Extract grounding sources as required by guidelines for Google Search grounding
-      const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-        ?.map((chunk: any) => chunk.web)
-        .filter(Boolean) || [];
-
-      return { text: response.text, sources };
+      const localSources = passages.length ? citedPassages(response.text, passages).map(passageSource) : [];
+      return { text: response.text, sources: [...localSources, ...response.sources] };
     } catch (error) {
-      return { text: "Research swarm was unable to reach the web. Proceeding with internal knowledge base.", sources: [] };
+      // A replay miss means the fixture is out of date and a stop is deliberate; falling back would hide either
+      if (isFatal(error)) throw error;
+      // Flagged so the placeholder is passed to the Conductor but never filed in the research library
+      return { text: "Research swarm was unable to reach the web. Proceeding with internal knowledge base.", sources: [], fallback: true };
     }
   }
 
-  async validateCode(code: string, requirements: string, config: SystemConfig, onLog: (log: any) => void) {
-    const ai = this.getAI();
+  async summarizeHistory(previousSummary: string | undefined, turns: ChatMessage[], config: SystemConfig, onLog: (log: any) => void, signal?: AbortSignal, usage?: UsageScope) {
+    onLog({
+      id: Math.random().toString(),
+      timestamp: Date.now(),
+      agent: 'Conductor',
+      message: `Compacting ${turns.length} earlier turn(s) to stay within the history budget...`,
+      type: 'info'
+    });
+
+    // Compaction runs on the Conductor's engine at its fastest setting
+    const response = await this.providerFor('conductor', config, onLog, signal, usage).generate({
+      operation: 'summarizeHistory',
+      model: conductorModelFor('speed', config),
+      turns: [{ role: 'user', text: `Condense this engineering conversation into a dense summary for an AI assistant continuing it. Preserve decisions, requirements, file names, integrated changes and open questions; drop pleasantries and full code listings.
+
+${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New turns:\n${formatTranscript(turns)}` }],
+      temperature: 0.2
+    });
+
+    return response.text || previousSummary || '';
+  }
+
+  async validateCode(
+    code: string,
+    requirements: string,
+    config: SystemConfig,
+    onLog: (log: any) => void,
+    onChunk?: (delta: StreamDelta) => void,
+    compilerReport = '',
+    testReport = '',
+    signal?: AbortSignal,
+    usage?: UsageScope
+  ): Promise<ValidationVerdict> {
+    const provider = this.providerFor('validator', config, onLog, signal, usage);
     onLog({
       id: Math.random().toString(),
       timestamp: Date.now(),
@@ -125,15 +303,33 @@ export class TrinityService {
     });
 
     try {
-      const response = await ai.models.generateContent({
+      const response = await provider.stream({
+        operation: 'validateCode',
         model: config.validatorModel,
-        contents: [{ role: 'user', parts: [{ text: `Review this code for correctness and adherence to: ${requirements}\n\nCode:\n${code}` }] }],
-        config: { temperature: 0.1 }
-      });
+        turns: [{ role: 'user', text: `Review these proposed files for correctness and adherence to the requirements below.
+Report every concrete problem as an issue with its file name and the 1-based line range shown in the listing, plus a suggested fix.
 
-      return response.text;
-    } catch (error) {
-      return "Validation node timed out. Manual review highly recommended.";
+Requirements:
+${requirements}
+${compilerReport ? `
+TypeScript compiler output for the workspace with these files applied. It comes from a real compile, so treat it as authoritative:
+report every compiler error in a proposed file as an error-severity issue, and do not invent type errors in code it checked cleanly.
+${compilerReport}
+` : ''}${testReport ? `
+Results of running the affected tests in a sandbox with these files applied. A failing test is a real failure:
+report it as an error-severity issue against the file most likely responsible.
+${testReport}
+` : ''}
+Proposed files:
+${code}` }],
+        temperature: 0.1,
+        responseSchema: VERDICT_SCHEMA
+      }, onChunk);
+
+      return parseVerdict(response.text);
+    } catch (error: any) {
+      if (isFatal(error)) throw error;
+      return unavailableVerdict(error instanceof AgentTimeoutError ? "Validation node timed out." : `Validation node failed: ${error.message}`);
     }
   }
 }
@@ -0,0 +1,263 @@
+
+// Line-oriented syntax highlighting for the editor; a light lexer rather than a parser, tuned for readability over precision
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'keyword' | 'number' | 'type' | 'function' | 'punct' | 'tag' | 'attr' | 'heading';
+
+export interface Token {
+  text: string;
+  kind: TokenKind;
+}
+
+interface Grammar {
+  lineComment?: string[];
+  blockComment?: [string, string];
+  strings: string[];
+  // Delimiters whose strings may span lines, such as template literals and Python triple quotes
+  multilineStrings?: string[];
+  keywords: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const JS_KEYWORDS = words('abstract as async await break case catch class const continue debugger declare default delete do else enum export extends false finally for from function get if implements import in infer instanceof interface is keyof let namespace new null of private protected public readonly return satisfies set static super switch this throw true try type typeof undefined unique var void while with yield');
+const PY_KEYWORDS = words('and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield match case');
+const SH_KEYWORDS = words('if then else elif fi for while until do done case esac function in return local export readonly echo exit set unset source');
+const GO_KEYWORDS = words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var nil true false');
+const RUST_KEYWORDS = words('as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while');
+const C_KEYWORDS = words('abstract auto bool break case catch char class const continue default delete do double else enum extends extern false final finally float for goto if implements import int interface long namespace new null nullptr package private protected public return short signed sizeof static struct super switch template this throw throws true try typedef typename union unsigned using var virtual void volatile while');
+const CSS_KEYWORDS = words('important media import supports keyframes from to and not only screen print');
+
+const C_STYLE: Omit<Grammar, 'keywords'> = { lineComment: ['//'], blockComment: ['/*', '*/'], strings: ['"', "'"] };
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: { ...C_STYLE, strings: ['"', "'"], multilineStrings: ['`'], keywords: JS_KEYWORDS },
+  json: { strings: ['"'], keywords: words('true false null') },
+  css: { blockComment: ['/*', '*/'], strings: ['"', "'"], keywords: CSS_KEYWORDS },
+  py: { lineComment: ['#'], strings: ['"', "'"], multilineStrings: ['"""', "'''"], keywords: PY_KEYWORDS },
+  sh: { lineComment: ['#'], strings: ['"', "'"], keywords: SH_KEYWORDS },
+  go: { ...C_STYLE, multilineStrings: ['`'], keywords: GO_KEYWORDS },
+  rust: { ...C_STYLE, keywords: RUST_KEYWORDS },
+  c: { ...C_STYLE, keywords: C_KEYWORDS },
+  yaml: { lineComment: ['#'], strings: ['"', "'"], keywords: words('true false null yes no on off') }
+};
+
+const GRAMMAR_BY_LANGUAGE: Record<string, keyof typeof GRAMMARS | 'markup' | 'markdown'> = {
+  ts: 'js', tsx: 'js', js: 'js', jsx: 'js', mjs: 'js', cjs: 'js', mts: 'js', cts: 'js',
+  json: 'json', jsonc: 'js',
+  css: 'css', scss: 'css', less: 'css',
+  py: 'py', sh: 'sh', bash: 'sh', zsh: 'sh', dockerfile: 'sh', makefile: 'sh', gitignore: 'sh', env: 'sh',
+  go: 'go', rs: 'rust',
+  c: 'c', h: 'c', cpp: 'c', hpp: 'c', cc: 'c', java: 'c', kt: 'c', cs: 'c', swift: 'c', php: 'c',
+  yaml: 'yaml', yml: 'yaml', toml: 'yaml',
+  html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+  md: 'markdown', markdown: 'markdown', mdx: 'markdown'
+};
+
+const PUNCTUATION = /[{}()[\];,.<>=+\-*/%!&|^~?:@]/;
+const NUMBER = /^(0[xob][\da-f_]+|\d[\d_]*(\.\d+)?(e[+-]?\d+)?n?)/i;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*/;
+
+// Adjacent tokens of the same kind are merged to keep the rendered span count low
+const tokenList = () => {
+  const tokens: Token[] = [];
+  const push = (text: string, kind: TokenKind) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ text, kind });
+  };
+  return { tokens, push };
+};
+
+// Index just past the closing delimiter, honouring backslash escapes; -1 when the string runs past the line
+const findClose = (line: string, delimiter: string, from: number) => {
+  for (let i = from; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (line.startsWith(delimiter, i)) return i + delimiter.length;
+  }
+  return -1;
+};
+
+const highlightCode = (lines: string[], grammar: Grammar): Token[][] => {
+  // Closing delimiter of a comment or string left open by an earlier line
+  let open: { close: string; kind: TokenKind } | null = null;
+
+  return lines.map(line => {
+    const { tokens, push } = tokenList();
+    let i = 0;
+
+    if (open) {
+      const end = open.kind === 'comment' ? line.indexOf(open.close) : findClose(line, open.close, 0) - open.close.length;
+      if (end < 0) {
+        push(line, open.kind);
+        return tokens;
+      }
+      push(line.slice(0, end + open.close.length), open.kind);
+      i = end + open.close.length;
+      open = null;
+    }
+
+    while (i < line.length) {
+      if (grammar.lineComment?.some(c => line.startsWith(c, i))) {
+        push(line.slice(i), 'comment');
+        break;
+      }
+      const block = grammar.blockComment;
+      if (block && line.startsWith(block[0], i)) {
+        const end = line.indexOf(block[1], i + block[0].length);
+        if (end < 0) {
+          push(line.slice(i), 'comment');
+          open = { close: block[1], kind: 'comment' };
+          break;
+        }
+        push(line.slice(i, end + block[1].length), 'comment');
+        i = end + block[1].length;
+        continue;
+      }
+      const multiline = grammar.multilineStrings?.find(q => line.startsWith(q, i));
+      const quote = multiline || grammar.strings.find(q => line.startsWith(q, i));
+      if (quote) {
+        const end = findClose(line, quote, i + quote.length);
+        if (end < 0) {
+          push(line.slice(i), 'string');
+          if (multiline) open = { close: quote, kind: 'string' };
+          break;
+        }
+        push(line.slice(i, end), 'string');
+        i = end;
+        continue;
+      }
+      const rest = line.slice(i);
+      const previous = i > 0 ? line[i - 1] : '';
+      const number = /[\w$]/.test(previous) ? null : NUMBER.exec(rest);
+      if (number) {
+        push(number[0], 'number');
+        i += number[0].length;
+        continue;
+      }
+      const identifier = IDENTIFIER.exec(rest);
+      if (identifier) {
+        const word = identifier[0];
+        const after = line.slice(i + word.length).trimStart();
+        push(word, grammar.keywords.has(word) ? 'keyword'
+          : after.startsWith('(') ? 'function'
+          : /^[A-Z]/.test(word) ? 'type'
+          : 'plain');
+        i += word.length;
+        continue;
+      }
+      push(line[i], PUNCTUATION.test(line[i]) ? 'punct' : 'plain');
+      i++;
+    }
+    return tokens;
+  });
+};
+
+// HTML, XML and SVG: tags, attribute names and quoted values, with comments and open tags spanning lines
+const highlightMarkup = (lines: string[]): Token[][] => {
+  let inComment = false;
+  let inTag = false;
+
+  return lines.map(line => {
+    const { tokens, push } = tokenList();
+    let i = 0;
+    while (i < line.length) {
+      if (inComment) {
+        const end = line.indexOf('-->', i);
+        push(line.slice(i, end < 0 ? line.length : end + 3), 'comment');
+        if (end < 0) break;
+        inComment = false;
+        i = end + 3;
+        continue;
+      }
+      if (inTag) {
+        const rest = line.slice(i);
+        const attr = /^[\w:.@-]+/.exec(rest);
+        if (line[i] === '"' || line[i] === "'") {
+          const end = line.indexOf(line[i], i + 1);
+          const stop = end < 0 ? line.length : end + 1;
+          push(line.slice(i, stop), 'string');
+          i = stop;
+        } else if (rest.startsWith('/>') || line[i] === '>') {
+          const length = rest.startsWith('/>') ? 2 : 1;
+          push(line.slice(i, i + length), 'tag');
+          inTag = false;
+          i += length;
+        } else if (attr) {
+          push(attr[0], 'attr');
+          i += attr[0].length;
+        } else {
+          push(line[i], line[i] === '=' ? 'punct' : 'plain');
+          i++;
+        }
+        continue;
+      }
+      if (line.startsWith('<!--', i)) {
+        inComment = true;
+        continue;
+      }
+      const tag = /^<\/?[\w:.-]+|^<!\w+/.exec(line.slice(i));
+      if (tag) {
+        push(tag[0], 'tag');
+        inTag = true;
+        i += tag[0].length;
+        continue;
+      }
+      const next = line.indexOf('<', i + 1);
+      const stop = next < 0 ? line.length : next;
+      push(line.slice(i, stop), 'plain');
+      i = stop;
+    }
+    return tokens;
+  });
+};
+
+const highlightMarkdown = (lines: string[]): Token[][] => {
+  let inFence = false;
+  return lines.map(line => {
+    const { tokens, push } = tokenList();
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      push(line, 'punct');
+      return tokens;
+    }
+    if (inFence) {
+      push(line, 'string');
+      return tokens;
+    }
+    if (/^#{1,6}\s/.test(line)) {
+      push(line, 'heading');
+      return tokens;
+    }
+    const marker = /^(\s*)([-*+]|\d+\.|>)\s/.exec(line);
+    let i = 0;
+    if (marker) {
+      push(marker[1], 'plain');
+      push(marker[2], 'punct');
+      i = marker[1].length + marker[2].length;
+    }
+    // Inline code and links stand out; emphasis is left as plain text
+    const inline = /`[^`]*`|\[[^\]]*\]\([^)]*\)/g;
+    inline.lastIndex = i;
+    let match: RegExpExecArray | null;
+    while ((match = inline.exec(line))) {
+      push(line.slice(i, match.index), 'plain');
+      push(match[0], match[0].startsWith('`') ? 'string' : 'function');
+      i = match.index + match[0].length;
+    }
+    push(line.slice(i), 'plain');
+    return tokens;
+  });
+};
+
+export const highlightLines = (content: string, language: string): Token[][] => {
+  const lines = content.split('\n');
+  const grammar = GRAMMAR_BY_LANGUAGE[language.toLowerCase()];
+  if (grammar === 'markup') return highlightMarkup(lines);
+  if (grammar === 'markdown') return highlightMarkdown(lines);
+  if (grammar) return highlightCode(lines, GRAMMARS[grammar]);
+  return lines.map(line => line ? [{ text: line, kind: 'plain' }] : []);
+};
@@ -0,0 +1,82 @@
+
+import { ResearchSource } from "../types";
+
+// Incremental output from a streaming call; thought summaries arrive separately from answer text
+export interface StreamDelta {
+  text?: string;
+  thought?: string;
+}
+
+// Provider-neutral conversation turn; adapters map it to their own message format
+export interface LLMTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  // JSON Schema of the call arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+}
+
+export interface LLMRequest {
+  // Which agent call issued the request; used to label and match recorded cassettes
+  operation?: string;
+  model: string;
+  system?: string;
+  turns: LLMTurn[];
+  temperature?: number;
+  // Let the model reason before answering; includeThoughts also streams its thought summaries
+  thinking?: { includeThoughts: boolean };
+  // Constrain the answer to JSON matching this schema
+  responseSchema?: Record<string, unknown>;
+  // Ground the answer in live web search results
+  webSearch?: boolean;
+  tools?: LLMTool[];
+  // Cancels the call; never part of cassette matching or recordings
+  signal?: AbortSignal;
+  // Receives the cumulative usage whenever a stream reports it, so a call that fails midway can still be billed; never recorded either
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+export interface LLMResponse {
+  text: string;
+  toolCalls: LLMToolCall[];
+  sources: ResearchSource[];
+  usage?: LLMUsage;
+}
+
+export interface ProviderCapabilities {
+  webSearch: boolean;
+  thinking: boolean;
+}
+
+export interface LLMProvider {
+  readonly label: string;
+  readonly capabilities: ProviderCapabilities;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Same result as generate, with text and thoughts forwarded as they arrive
+  stream(request: LLMRequest, onChunk?: (delta: StreamDelta) => void): Promise<LLMResponse>;
+}
+
+// Transport or API failure from a provider; status is the HTTP status when one was received
+export class ProviderError extends Error {
+  constructor(message: string, public readonly provider: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
@@ -0,0 +1,142 @@
+
+import { LocalEndpointConfig } from "../types";
+import { LLMProvider, LLMRequest, LLMResponse, LLMToolCall, LLMUsage, ProviderError, StreamDelta } from "./llmProvider";
+
+// Chat Completions over plain HTTP, as served by llama.cpp, Ollama, vLLM and similar local model servers
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly label = 'OpenAI-compatible';
+  // Servers expose no search tool; reasoning models may still stream reasoning_content
+  readonly capabilities = { webSearch: false, thinking: false };
+
+  constructor(private readonly endpoint: LocalEndpointConfig) {}
+
+  private buildBody(request: LLMRequest, stream: boolean) {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.turns.map(t => ({ role: t.role === 'model' ? 'assistant' : 'user', content: t.text }))
+    ];
+    return {
+      model: request.model,
+      messages,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.responseSchema
+        ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } } }
+        : {}),
+      ...(request.tools?.length
+        ? { tools: request.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })) }
+        : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+    };
+  }
+
+  private async post(body: unknown, signal?: AbortSignal) {
+    let response: Response;
+    try {
+      response = await fetch(`${this.endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.endpoint.apiKey ? { Authorization: `Bearer ${this.endpoint.apiKey}` } : {})
+        },
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error: any) {
+      if (signal?.aborted) throw signal.reason;
+      throw new ProviderError(`Cannot reach ${this.endpoint.baseUrl}: ${error.message}`, this.label);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError(`HTTP ${response.status} from ${this.endpoint.baseUrl}${detail ? `: ${detail.slice(0, 300)}` : ''}`, this.label, response.status);
+    }
+    return response;
+  }
+
+  private usageOf(usage: any): LLMUsage | undefined {
+    if (!usage) return undefined;
+    // completion_tokens includes reasoning; they are reported apart, as Gemini does
+    const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      outputTokens: Math.max(0, (usage.completion_tokens || 0) - thinkingTokens),
+      thinkingTokens,
+      cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0
+    };
+  }
+
+  private parseToolCall(name: string, args: string): LLMToolCall {
+    try {
+      return { name, args: args ? JSON.parse(args) : {} };
+    } catch {
+      throw new ProviderError(`Tool call "${name}" carried malformed JSON arguments`, this.label);
+    }
+  }
+
+  // Malformed bodies surface as provider failures rather than raw SyntaxErrors
+  private parseJson(text: string, what: string) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ProviderError(`${this.endpoint.baseUrl} sent a malformed ${what}: ${text.slice(0, 200)}`, this.label);
+    }
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const data = this.parseJson(await (await this.post(this.buildBody(request, false), request.signal)).text(), 'response');
+    const message = data.choices?.[0]?.message || {};
+    return {
+      text: message.content || '',
+      toolCalls: (message.tool_calls || []).map((call: any) => this.parseToolCall(call.function?.name, call.function?.arguments)),
+      sources: [],
+      usage: this.usageOf(data.usage)
+    };
+  }
+
+  async stream(request: LLMRequest, onChunk?: (delta: StreamDelta) => void): Promise<LLMResponse> {
+    const response = await this.post(this.buildBody(request, true), request.signal);
+    if (!response.body) throw new ProviderError('Streaming response had no body', this.label);
+
+    const result: LLMResponse = { text: '', toolCalls: [], sources: [] };
+    // Tool call names and arguments arrive in fragments keyed by index
+    const pendingCalls: { name: string; args: string }[] = [];
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleEvent = (payload: string) => {
+      if (payload === '[DONE]') return;
+      const data = this.parseJson(payload, 'stream event');
+      const delta = data.choices?.[0]?.delta;
+      if (delta?.reasoning_content) onChunk?.({ thought: delta.reasoning_content });
+      if (delta?.content) {
+        result.text += delta.content;
+        onChunk?.({ text: delta.content });
+      }
+      for (const call of delta?.tool_calls || []) {
+        const slot = pendingCalls[call.index ?? 0] ||= { name: '', args: '' };
+        if (call.function?.name) slot.name += call.function.name;
+        if (call.function?.arguments) slot.args += call.function.arguments;
+      }
+      if (data.usage) {
+        result.usage = this.usageOf(data.usage);
+        request.onUsage?.(result.usage!);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) handleEvent(trimmed.slice(5).trim());
+      }
+    }
+    if (buffer.trim().startsWith('data:')) handleEvent(buffer.trim().slice(5).trim());
+
+    result.toolCalls = pendingCalls.filter(Boolean).map(c => this.parseToolCall(c.name, c.args));
+    return result;
+  }
+}
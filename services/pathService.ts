@@ -0,0 +1,144 @@
+
+import { ProjectFile } from "../types";
+
+// Workspace paths are relative, '/'-separated and normalized, so "src/a.ts", "./src/a.ts" and "src//a.ts" name one file
+
+export class PathError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(message);
+    this.name = 'PathError';
+  }
+}
+
+const MAX_PATH_LENGTH = 1024;
+const MAX_SEGMENT_LENGTH = 255;
+
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+// Tooling metadata the agents must never write into
+const RESERVED_SEGMENTS = new Set(['.git', '.hg', '.svn']);
+const INVALID_CHARACTERS = /[<>:"|?*\u0000-\u001f]/;
+
+// Resolves "." and inner ".." segments; throws PathError for anything that is not a safe relative path
+export const normalizePath = (raw: string): string => {
+  const path = raw.trim().replace(/\\/g, '/');
+  if (!path) throw new PathError('Path is empty', raw);
+  if (path.startsWith('/') || path.startsWith('~') || /^[a-z]:/i.test(path)) {
+    throw new PathError(`${raw} is absolute; paths must be relative to the project root`, raw);
+  }
+
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) throw new PathError(`${raw} escapes the project root`, raw);
+      segments.pop();
+      continue;
+    }
+    if (INVALID_CHARACTERS.test(segment)) throw new PathError(`${raw} contains characters that are not allowed in file names`, raw);
+    if (RESERVED_NAMES.test(segment)) throw new PathError(`${raw} uses the reserved name "${segment}"`, raw);
+    if (RESERVED_SEGMENTS.has(segment.toLowerCase())) throw new PathError(`${raw} points inside ${segment}, which is reserved`, raw);
+    if (/[. ]$/.test(segment)) throw new PathError(`${raw} has a segment ending in a dot or space`, raw);
+    if (segment.length > MAX_SEGMENT_LENGTH) throw new PathError(`${raw} has a name longer than ${MAX_SEGMENT_LENGTH} characters`, raw);
+    segments.push(segment);
+  }
+
+  if (segments.length === 0) throw new PathError(`${raw} does not name a file`, raw);
+  const normalized = segments.join('/');
+  if (normalized.length > MAX_PATH_LENGTH) throw new PathError(`${raw} is longer than ${MAX_PATH_LENGTH} characters`, raw);
+  return normalized;
+};
+
+// The problem with a path, or null when it is safe
+export const pathProblem = (raw: string): string | null => {
+  try {
+    normalizePath(raw);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+};
+
+// Normalized when possible; unsafe paths pass through unchanged so validation can report them
+export const tryNormalizePath = (raw: string) => {
+  try {
+    return normalizePath(raw);
+  } catch {
+    return raw;
+  }
+};
+
+export const parentPath = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+export const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+export const joinPath = (folder: string, name: string) => folder ? `${folder}/${name}` : name;
+
+export const isInside = (path: string, folder: string) => !folder || path.startsWith(`${folder}/`);
+
+// Every ancestor folder of the given files, e.g. "src" and "src/lib" for "src/lib/a.ts"
+export const folderPaths = (names: Iterable<string>) => {
+  const folders = new Set<string>();
+  for (const name of names) {
+    for (let folder = parentPath(name); folder; folder = parentPath(folder)) folders.add(folder);
+  }
+  return folders;
+};
+
+// Static and dynamic imports, re-exports and require calls
+const IMPORT_PATTERN = /\bfrom\s*['"]([^'"]+)['"]|\bimport\s*\(?\s*['"]([^'"]+)['"]|\brequire\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+export const importSpecifiers = (content: string) =>
+  Array.from(content.matchAll(IMPORT_PATTERN), m => m[1] || m[2] || m[3]);
+
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+// Workspace file a relative or root-anchored specifier refers to, trying extensions and index files the way bundlers do
+export const resolveImport = (exists: (name: string) => boolean, from: string, specifier: string): string | null => {
+  if (!/^(\.{1,2}(\/|$)|\/)/.test(specifier)) return null;
+  let path: string;
+  try {
+    path = normalizePath(specifier.startsWith('/') ? specifier.slice(1) : joinPath(parentPath(from), specifier));
+  } catch {
+    return null;
+  }
+  // ESM-style TypeScript imports name the emitted .js file
+  const stem = path.replace(/\.[mc]?jsx?$/, '');
+  const candidates = [path, ...MODULE_EXTENSIONS.map(ext => stem + ext), ...MODULE_EXTENSIONS.map(ext => `${path}/index${ext}`)];
+  return candidates.find(exists) || null;
+};
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  kind: 'folder' | 'file';
+  children: FileTreeNode[];
+  file?: ProjectFile;
+}
+
+// Folders first, then files, each alphabetical
+export const buildFileTree = (files: ProjectFile[], extraFolders: string[] = []): FileTreeNode[] => {
+  const root: FileTreeNode = { name: '', path: '', kind: 'folder', children: [] };
+  const folders = new Map<string, FileTreeNode>([['', root]]);
+
+  const folderFor = (path: string): FileTreeNode => {
+    const existing = folders.get(path);
+    if (existing) return existing;
+    const node: FileTreeNode = { name: baseName(path), path, kind: 'folder', children: [] };
+    folders.set(path, node);
+    folderFor(parentPath(path)).children.push(node);
+    return node;
+  };
+
+  extraFolders.forEach(folderFor);
+  files.forEach(file => {
+    folderFor(parentPath(file.name)).children.push({ name: baseName(file.name), path: file.name, kind: 'file', children: [], file });
+  });
+
+  const sort = (node: FileTreeNode) => {
+    node.children.sort((a, b) => a.kind !== b.kind ? (a.kind === 'folder' ? -1 : 1) : a.name.localeCompare(b.name));
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root.children;
+};
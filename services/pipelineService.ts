@@ -0,0 +1,198 @@
+
+import { CodeChangeset, CoderTask, FileChangeAction, TaskPlan, ValidationVerdict } from "../types";
+import { LLMTool, LLMToolCall } from "./llmProvider";
+
+const ACTIONS: FileChangeAction[] = ['create', 'modify', 'rename', 'delete'];
+
+// Index just past the object that opens at start, honouring strings and escapes; -1 when it never closes
+const scanObject = (text: string, start: number) => {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+};
+
+const VALID_ESCAPES = '"\\/bfnrtu';
+
+// Fixes what models commonly get wrong inside JSON strings: raw newlines and tabs, and escapes such as \` that JSON does not define
+const repairJson = (text: string) => {
+  let out = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (!inString) {
+      if (ch === '"') inString = true;
+      out += ch;
+    } else if (ch === '\\') {
+      const next = text[i + 1];
+      out += next !== undefined && VALID_ESCAPES.includes(next) ? ch + next : next ?? '';
+      i++;
+    } else if (ch === '"') {
+      inString = false;
+      out += ch;
+    } else {
+      out += ch === '\n' ? '\\n' : ch === '\t' ? '\\t' : ch;
+    }
+  }
+  return out;
+};
+
+const parseLenient = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      return JSON.parse(repairJson(text));
+    } catch {
+      return null;
+    }
+  }
+};
+
+// First JSON object in an agent reply that satisfies accept, whether the reply is bare JSON, fenced, or prose around it.
+// Objects are located by brace matching rather than fence regexes, so backticks inside string values cannot cut them short.
+export const extractJsonBlock = (text: string, accept: (data: any) => boolean = data => !!data?.action): any => {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  let i = normalized.indexOf('{');
+  while (i >= 0) {
+    const end = scanObject(normalized, i);
+    const data = end > 0 ? parseLenient(normalized.slice(i, end)) : null;
+    if (data && accept(data)) return data;
+    // Skip past a parsed object, but step into unparseable ones in case a valid payload is nested inside
+    i = normalized.indexOf('{', data ? end : i + 1);
+  }
+  return null;
+};
+
+// A reply that names a proposal action or carries a JSON fence was meant to hand something off
+export const looksLikeProposal = (text: string) =>
+  /delegate_to_coder|propose_changeset|propose_code|```json/i.test(text);
+
+// Function declaration the Conductor calls to hand a plan to the Coder
+export const DELEGATE_TOOL: LLMTool = {
+  name: 'delegate_to_coder',
+  description: 'Hand a task plan to the Coder agent. Call once per request that needs code changes, covering every file the feature needs.',
+  parameters: {
+    type: 'object',
+    properties: {
+      objective: { type: 'string', description: 'What the change must achieve' },
+      tasks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            action: { type: 'string', enum: ACTIONS },
+            fileName: { type: 'string' },
+            newFileName: { type: 'string', description: 'Target path, only for rename' },
+            instructions: { type: 'string', description: 'What to put in or change in this file, and what to preserve' }
+          },
+          required: ['action', 'fileName', 'instructions']
+        }
+      },
+      acceptanceCriteria: { type: 'array', items: { type: 'string' }, description: 'Observable behaviour the Validator should check' }
+    },
+    required: ['objective', 'tasks', 'acceptanceCriteria']
+  }
+};
+
+export const parseTaskPlan = (data: any): TaskPlan | null => {
+  if (!data || data.action !== 'delegate_to_coder' || !data.plan || !Array.isArray(data.plan.tasks)) return null;
+
+  const tasks: CoderTask[] = data.plan.tasks
+    .filter((t: any) => t && ACTIONS.includes(t.action) && typeof t.fileName === 'string')
+    .map((t: any) => ({
+      action: t.action,
+      fileName: t.fileName,
+      ...(typeof t.newFileName === 'string' ? { newFileName: t.newFileName } : {}),
+      instructions: String(t.instructions ?? '')
+    }));
+  if (tasks.length === 0) return null;
+
+  return {
+    objective: String(data.plan.objective ?? ''),
+    tasks,
+    acceptanceCriteria: Array.isArray(data.plan.acceptanceCriteria) ? data.plan.acceptanceCriteria.map(String) : []
+  };
+};
+
+export const MAX_RESEARCH_QUERIES = 3;
+
+// Function declaration the Conductor calls when it needs grounding before it can plan or answer
+export const RESEARCH_TOOL: LLMTool = {
+  name: 'request_research',
+  description: 'Ask the Research Lead for web-grounded technical findings before answering. Use it when the answer depends on facts outside the workspace that may be new or uncertain, such as recent library versions, API details or error messages. Do not use it for questions the workspace already answers.',
+  parameters: {
+    type: 'object',
+    properties: {
+      queries: {
+        type: 'array',
+        items: { type: 'string' },
+        description: `One to ${MAX_RESEARCH_QUERIES} focused, self-contained search queries; they run in parallel`
+      }
+    },
+    required: ['queries']
+  }
+};
+
+export const researchQueriesFrom = (toolCalls: LLMToolCall[]) => Array.from(new Set(
+  toolCalls
+    .filter(c => c.name === RESEARCH_TOOL.name && Array.isArray(c.args.queries))
+    .flatMap(c => c.args.queries)
+    .filter((q: unknown): q is string => typeof q === 'string' && q.trim().length > 0)
+    .map(q => q.trim())
+)).slice(0, MAX_RESEARCH_QUERIES);
+
+// Prefers the structured function call; falls back to a plan written out in the reply text
+export const taskPlanFrom = (text: string, toolCalls: LLMToolCall[]): TaskPlan | null => {
+  const call = toolCalls.find(c => c.name === DELEGATE_TOOL.name);
+  if (call) return parseTaskPlan({ action: DELEGATE_TOOL.name, plan: call.args });
+  return parseTaskPlan(extractJsonBlock(text, data => data?.action === DELEGATE_TOOL.name));
+};
+
+export const planTargets = (plan: TaskPlan) => plan.tasks.flatMap(t => t.newFileName ? [t.fileName, t.newFileName] : [t.fileName]);
+
+// Requirements handed to the Validator: the Conductor's objective and acceptance criteria, or the Coder's rationale
+export const validationRequirements = (changeset: CodeChangeset, plan?: TaskPlan) => plan
+  ? [plan.objective, ...plan.acceptanceCriteria.map(c => `- ${c}`)].join('\n')
+  : changeset.description;
+
+// Line-numbered so Validator issues can point at exact ranges of each proposed file
+export const formatArtifacts = (changeset: CodeChangeset) => changeset.changes
+  .filter(c => c.content !== undefined)
+  .map(c => {
+    const numbered = c.content!.split('\n').map((line, idx) => `${String(idx + 1).padStart(4)}| ${line}`).join('\n');
+    return `=== File: ${c.newFileName || c.fileName} (${c.action}) ===\n${numbered}`;
+  })
+  .join('\n\n');
+
+// Feedback for a repair pass: the rejected attempt as the Validator saw it, plus every issue it raised
+export const repairFeedback = (changeset: CodeChangeset, verdict: ValidationVerdict) => {
+  const issues = verdict.issues.map(i => {
+    const range = i.startLine ? `:${i.startLine}${i.endLine && i.endLine !== i.startLine ? `-${i.endLine}` : ''}` : '';
+    return `- [${i.severity}] ${i.fileName}${range}: ${i.message}${i.suggestedFix ? `\n  Suggested fix: ${i.suggestedFix}` : ''}`;
+  });
+  return `Your previous changeset failed validation. Revise it so every issue is resolved, and return the complete changeset again.
+
+Validator summary: ${verdict.summary}
+Issues:
+${issues.join('\n') || '- (none itemised)'}
+
+Previous changeset (line numbers are for reference only, do not include them in file content):
+${formatArtifacts(changeset)}`;
+};
+
+// Rejected attempts still count toward the limit, so 0 disables repair
+export const shouldRepair = (verdict: ValidationVerdict, repairsDone: number, config: { autoRepair: boolean; maxRepairIterations: number }) =>
+  config.autoRepair && verdict.status === 'fail' && repairsDone < config.maxRepairIterations;
@@ -0,0 +1,212 @@
+
+import { ProjectFile } from "../types";
+import { compiler, isTranspilable } from "./compilerService";
+import type { TranspileResult } from "./compiler.worker";
+import { resolveImport } from "./pathService";
+
+// Bundles the workspace for the live preview. Every reachable module becomes a data: URL in the page's import map,
+// so the sandboxed iframe runs the app without a dev server; packages load from the page's own import map or the CDN.
+
+export const PREVIEW_MESSAGE_SOURCE = 'trinity-preview';
+
+// Posted by the console bridge inside the preview frame
+export interface PreviewMessage {
+  source: typeof PREVIEW_MESSAGE_SOURCE;
+  token: string;
+  level: 'error' | 'warn';
+  message: string;
+}
+
+export interface PreviewBuild {
+  html: string;
+  entry: string;
+  moduleCount: number;
+  // Files that failed to transpile; importing them throws inside the preview
+  errors: string[];
+}
+
+export class PreviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreviewError';
+  }
+}
+
+const HTML_ENTRY = 'index.html';
+const SCRIPT_ENTRIES = ['index.tsx', 'index.ts', 'index.jsx', 'index.js', 'src/main.tsx', 'src/main.ts', 'src/main.jsx', 'src/main.js', 'src/index.tsx', 'src/index.ts', 'src/index.jsx', 'src/index.js'];
+const CDN_URL = 'https://esm.sh/';
+// Workspace modules are mapped under a bare prefix: data: modules cannot resolve relative or root-relative specifiers
+const MODULE_PREFIX = '@workspace/';
+
+const SHELL_HTML = `<!DOCTYPE html>
+<html lang="en">
+  <head><meta charset="UTF-8" /><meta name="viewport" content="width=device-width, initial-scale=1.0" /></head>
+  <body><div id="root"></div></body>
+</html>`;
+
+// Import and export specifiers as the compiler emits them
+const SPECIFIER_PATTERN = /(\bfrom\s*|\bimport\s*\(?\s*)(["'])([^"'\n]+)\2/g;
+
+const dataUrl = (code: string) => `data:text/javascript;charset=utf-8,${encodeURIComponent(code)}`;
+
+const packageName = (specifier: string) => specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+
+// Forwards errors and warnings to the parent; runs before any workspace code
+const consoleBridge = (token: string) => `(function () {
+  var token = ${JSON.stringify(token)};
+  var format = function (value) {
+    if (value instanceof Error) return value.stack || value.message;
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  };
+  var send = function (level, args) {
+    try {
+      parent.postMessage({ source: ${JSON.stringify(PREVIEW_MESSAGE_SOURCE)}, token: token, level: level, message: Array.prototype.map.call(args, format).join(' ') }, '*');
+    } catch (e) {}
+  };
+  ['error', 'warn'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send(level, arguments);
+      return original.apply(console, arguments);
+    };
+  });
+  addEventListener('error', function (event) { send('error', [event.error || event.message]); });
+  addEventListener('unhandledrejection', function (event) { send('error', ['Unhandled rejection:', event.reason]); });
+})();`;
+
+// Non-script files are wrapped so they can be imported the way bundlers allow
+const assetModule = (file: ProjectFile) => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.css')) {
+    return `const style = document.createElement('style');\nstyle.dataset.file = ${JSON.stringify(file.name)};\nstyle.textContent = ${JSON.stringify(file.content)};\ndocument.head.appendChild(style);\nexport default ${JSON.stringify(file.content)};`;
+  }
+  if (name.endsWith('.json')) {
+    try {
+      return `export default ${JSON.stringify(JSON.parse(file.content))};`;
+    } catch (error: any) {
+      return `throw new SyntaxError(${JSON.stringify(`${file.name}: ${error.message}`)});`;
+    }
+  }
+  if (name.endsWith('.svg')) return `export default ${JSON.stringify(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(file.content)}`)};`;
+  return `export default ${JSON.stringify(file.content)};`;
+};
+
+// Walks the import graph from the entries, pointing relative imports at each module's import map key
+const moduleGraph = (files: Map<string, ProjectFile>, transpiled: TranspileResult) => {
+  const exists = (name: string) => files.has(name);
+  const urls: Record<string, string> = {};
+  const packages = new Set<string>();
+  const queue: string[] = [];
+
+  const rewrite = (code: string, from: string) => code.replace(SPECIFIER_PATTERN, (match, lead: string, quote: string, specifier: string) => {
+    if (/^([a-z][a-z\d+.-]*:|\/\/)/i.test(specifier)) return match;
+    const resolved = resolveImport(exists, from, specifier);
+    if (resolved) {
+      queue.push(resolved);
+      return `${lead}${quote}${MODULE_PREFIX}${resolved}${quote}`;
+    }
+    if (!/^[./]/.test(specifier)) packages.add(specifier);
+    return match;
+  });
+
+  const sourceFor = (file: ProjectFile) => {
+    if (!isTranspilable(file.name)) return assetModule(file);
+    const code = transpiled.modules[file.name];
+    if (code !== undefined) return rewrite(code, file.name);
+    const error = transpiled.errors.find(d => d.fileName === file.name);
+    return `throw new SyntaxError(${JSON.stringify(error ? `${file.name}:${error.line}:${error.column} ${error.message}` : `${file.name} could not be compiled`)});`;
+  };
+
+  const flush = () => {
+    while (queue.length) {
+      const name = queue.shift()!;
+      if (urls[MODULE_PREFIX + name]) continue;
+      urls[MODULE_PREFIX + name] = dataUrl(sourceFor(files.get(name)!));
+    }
+  };
+
+  return { rewrite, flush, urls, packages };
+};
+
+export const findPreviewEntry = (files: ProjectFile[]) => {
+  const names = new Set(files.map(f => f.name));
+  return names.has(HTML_ENTRY) ? HTML_ENTRY : SCRIPT_ENTRIES.find(name => names.has(name)) || null;
+};
+
+export const buildPreview = async (files: ProjectFile[], token: string): Promise<PreviewBuild> => {
+  const entry = findPreviewEntry(files);
+  if (!entry) throw new PreviewError(`No ${HTML_ENTRY} or index/main script found at the workspace root or in src/.`);
+
+  const byName = new Map(files.map(f => [f.name, f]));
+  const transpiled = await compiler.transpile(files, 'esm');
+  const errors = transpiled.errors.map(d => `${d.fileName}:${d.line}:${d.column} ${d.message}`);
+  const graph = moduleGraph(byName, transpiled);
+  const doc = new DOMParser().parseFromString(entry === HTML_ENTRY ? byName.get(HTML_ENTRY)!.content : SHELL_HTML, 'text/html');
+  const localFile = (reference: string) => /^([a-z][a-z\d+.-]*:|\/\/)/i.test(reference)
+    ? null
+    : resolveImport(name => byName.has(name), HTML_ENTRY, /^[./]/.test(reference) ? reference : `./${reference}`);
+
+  // The page's own import map supplies package URLs; workspace modules are merged into it
+  const imports: Record<string, string> = {};
+  doc.querySelectorAll('script[type="importmap"]').forEach(script => {
+    try {
+      Object.assign(imports, JSON.parse(script.textContent || '{}').imports || {});
+    } catch {
+      errors.push(`${HTML_ENTRY}: import map is not valid JSON`);
+    }
+    script.remove();
+  });
+
+  // Entries load through a dynamic import so a failing module graph reports its error instead of failing silently
+  const loader = (name: string) => `import(${JSON.stringify(MODULE_PREFIX + name)}).catch(error => console.error(error));`;
+  doc.querySelectorAll('script[type="module"]').forEach(script => {
+    const src = script.getAttribute('src');
+    if (src === null) {
+      script.textContent = graph.rewrite(script.textContent || '', HTML_ENTRY);
+      return;
+    }
+    const resolved = localFile(src);
+    if (!resolved) return;
+    graph.rewrite(`import "./${resolved}"`, HTML_ENTRY);
+    script.removeAttribute('src');
+    script.textContent = loader(resolved);
+  });
+  if (entry !== HTML_ENTRY) {
+    graph.rewrite(`import "./${entry}"`, HTML_ENTRY);
+    const script = doc.createElement('script');
+    script.type = 'module';
+    script.textContent = loader(entry);
+    doc.body.appendChild(script);
+  }
+
+  doc.querySelectorAll('link[rel="stylesheet"][href]').forEach(link => {
+    const resolved = localFile(link.getAttribute('href')!);
+    if (!resolved) return;
+    const style = doc.createElement('style');
+    style.textContent = byName.get(resolved)!.content;
+    link.replaceWith(style);
+  });
+
+  graph.flush();
+  // Packages the page does not map come from the CDN, at the version the page pins for the package itself when there is one
+  graph.packages.forEach(specifier => {
+    if (imports[specifier] || Object.keys(imports).some(key => key.endsWith('/') && specifier.startsWith(key))) return;
+    const pinned = imports[packageName(specifier)];
+    imports[specifier] = pinned?.startsWith(CDN_URL) ? pinned + specifier.slice(packageName(specifier).length) : CDN_URL + specifier;
+  });
+
+  const importMap = doc.createElement('script');
+  importMap.type = 'importmap';
+  importMap.textContent = JSON.stringify({ imports: { ...imports, ...graph.urls } }).replace(/<\//g, '<\\/');
+  const bridge = doc.createElement('script');
+  bridge.textContent = consoleBridge(token);
+  doc.head.prepend(bridge, importMap);
+
+  return {
+    html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`,
+    entry,
+    moduleCount: Object.keys(graph.urls).length,
+    errors
+  };
+};
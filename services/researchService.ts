@@ -0,0 +1,66 @@
+
+import { ResearchEntry, ResearchSource } from "../types";
+import { estimateTokens } from "./conversationService";
+
+// Pinned findings sent with each Conductor call are capped so they cannot crowd out the workspace
+export const PINNED_RESEARCH_TOKEN_BUDGET = 8000;
+
+// Same page cited twice (trailing slash, fragment or case differences) counts once;
+// local doc:// fragments name distinct passages, so they are kept
+const sourceKey = (uri: string) => {
+  const trimmed = uri.trim();
+  if (trimmed.startsWith('doc://')) return trimmed;
+  return trimmed.replace(/#.*$/, '').replace(/\/+$/, '').toLowerCase();
+};
+
+export const dedupeSources = (sources: ResearchSource[]): ResearchSource[] => {
+  const seen = new Set<string>();
+  return sources.filter(source => {
+    if (!source?.uri) return false;
+    const key = sourceKey(source.uri);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const createResearchEntry = (projectId: string, query: string, findings: string, sources: ResearchSource[]): ResearchEntry => ({
+  id: Math.random().toString(36).substr(2, 9),
+  projectId,
+  query,
+  findings,
+  sources: dedupeSources(sources),
+  tags: [],
+  pinned: false,
+  createdAt: Date.now()
+});
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const collectTags = (entries: ResearchEntry[]) => Array.from(new Set(entries.flatMap(e => e.tags))).sort();
+
+// Every whitespace-separated term must appear in the query, findings, tags or source titles
+export const searchResearch = (entries: ResearchEntry[], text: string, tag?: string) => {
+  const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(entry => {
+    if (tag && !entry.tags.includes(tag)) return false;
+    if (terms.length === 0) return true;
+    const haystack = [entry.query, entry.findings, ...entry.tags, ...entry.sources.map(s => `${s.title} ${s.uri}`)].join('\n').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+// Pinned findings as a grounding block, newest first, truncated at the budget
+export const pinnedGrounding = (entries: ResearchEntry[], budget = PINNED_RESEARCH_TOKEN_BUDGET) => {
+  let remaining = budget;
+  const sections: string[] = [];
+  for (const entry of entries.filter(e => e.pinned).sort((a, b) => b.createdAt - a.createdAt)) {
+    if (remaining <= 0) break;
+    const sources = entry.sources.map(s => `- ${s.title}: ${s.uri}`).join('\n');
+    let section = `### ${entry.query}\n${entry.findings}${sources ? `\nSources:\n${sources}` : ''}`;
+    if (estimateTokens(section) > remaining) section = `${section.slice(0, remaining * 4)}\n[truncated]`;
+    remaining -= estimateTokens(section);
+    sections.push(section);
+  }
+  return sections.join('\n\n');
+};
@@ -0,0 +1,100 @@
+
+import { LLMProvider, LLMRequest, LLMResponse, ProviderCapabilities, ProviderError, StreamDelta } from "./llmProvider";
+
+// HTTP statuses worth another attempt: rate limits and transient server or gateway failures
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+// The user stopped the run; never retried or replaced by a fallback answer
+export class CancelledError extends Error {
+  constructor(message = 'Run stopped by user.') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export class AgentTimeoutError extends ProviderError {
+  constructor(message: string, provider: string) {
+    super(message, provider);
+    this.name = 'AgentTimeoutError';
+  }
+}
+
+export const isRetryable = (error: unknown) =>
+  error instanceof ProviderError && !(error instanceof AgentTimeoutError) && error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+
+// Exponential backoff with jitter, so parallel research calls do not retry in lockstep
+export const backoffDelay = (attempt: number) =>
+  Math.round(Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2));
+
+export interface RetryPolicy {
+  // Budget for the whole call, retries and waits included
+  timeoutMs: number;
+  maxRetries: number;
+  signal?: AbortSignal;
+  onRetry?: (info: { attempt: number; maxAttempts: number; delayMs: number; error: ProviderError }) => void;
+}
+
+// Settles with the signal's reason as soon as it aborts, even when the inner call ignores the signal
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+  const onAbort = () => reject(signal.reason);
+  if (signal.aborted) return onAbort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+const sleep = (ms: number, signal: AbortSignal) => raceAbort(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+
+// Applies a time limit, retries and user cancellation to every call of the wrapped provider
+export class RetryingProvider implements LLMProvider {
+  readonly label: string;
+  readonly capabilities: ProviderCapabilities;
+
+  constructor(private readonly inner: LLMProvider, private readonly policy: RetryPolicy) {
+    this.label = inner.label;
+    this.capabilities = inner.capabilities;
+  }
+
+  private async run(request: LLMRequest, call: (request: LLMRequest) => Promise<LLMResponse>, canRetry: () => boolean) {
+    const { timeoutMs, maxRetries, signal, onRetry } = this.policy;
+    const controller = new AbortController();
+    const deadline = Date.now() + timeoutMs;
+    const timer = setTimeout(() => controller.abort(new AgentTimeoutError(`No answer from ${this.label} within ${Math.round(timeoutMs / 1000)}s`, this.label)), timeoutMs);
+    const cancel = () => controller.abort(signal!.reason instanceof CancelledError ? signal!.reason : new CancelledError());
+    if (signal?.aborted) cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await raceAbort(call({ ...request, signal: controller.signal }), controller.signal);
+        } catch (error) {
+          if (controller.signal.aborted) throw controller.signal.reason;
+          const delayMs = backoffDelay(attempt);
+          // Give up when out of attempts, when output already reached the UI, or when waiting would overrun the budget
+          if (!isRetryable(error) || attempt > maxRetries || !canRetry() || Date.now() + delayMs >= deadline) throw error;
+          onRetry?.({ attempt, maxAttempts: maxRetries + 1, delayMs, error: error as ProviderError });
+          await sleep(delayMs, controller.signal);
+        }
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  generate(request: LLMRequest): Promise<LLMResponse> {
+    return this.run(request, r => this.inner.generate(r), () => true);
+  }
+
+  stream(request: LLMRequest, onChunk?: (delta: StreamDelta) => void): Promise<LLMResponse> {
+    let forwarded = false;
+    return this.run(request, r => this.inner.stream(r, delta => {
+      // A provider that ignores the signal may keep streaming after the call was abandoned
+      if (r.signal?.aborted) return;
+      forwarded = true;
+      onChunk?.(delta);
+    }), () => !forwarded);
+  }
+}
@@ -0,0 +1,142 @@
+
+import { CodeChangeset, FileChange, FileRevision, Project, ValidationVerdict } from "../types";
+import { applyChangeset, baseContentFor } from "./changesetService";
+
+export interface IntegrationMeta {
+  author: FileRevision['author'];
+  verdict?: ValidationVerdict;
+  verdictOverridden?: boolean;
+  revertOf?: string;
+}
+
+export interface Approval {
+  approvalId: string;
+  timestamp: number;
+  description: string;
+  author: FileRevision['author'];
+  verdict?: ValidationVerdict;
+  verdictOverridden?: boolean;
+  revertOf?: string;
+  revisions: FileRevision[];
+}
+
+// Stored history keeps the newest approvals within both limits; the latest approval is always kept whatever its size
+export const MAX_APPROVALS = 100;
+export const MAX_HISTORY_CHARS = 5_000_000;
+
+const revisionChars = (rev: FileRevision) => (rev.before?.length || 0) + (rev.after?.length || 0);
+
+// Drops whole approvals, oldest first, so every kept approval can still be reverted
+const pruneHistory = (revisions: FileRevision[]): FileRevision[] => {
+  const sizes = new Map<string, number>();
+  revisions.forEach(rev => sizes.set(rev.approvalId, (sizes.get(rev.approvalId) || 0) + revisionChars(rev)));
+  const kept = new Set<string>();
+  let chars = 0;
+  for (const [approvalId, size] of Array.from(sizes).reverse()) {
+    if (kept.size && (kept.size >= MAX_APPROVALS || chars + size > MAX_HISTORY_CHARS)) break;
+    kept.add(approvalId);
+    chars += size;
+  }
+  return kept.size === sizes.size ? revisions : revisions.filter(rev => kept.has(rev.approvalId));
+};
+
+const buildRevisions = (project: Project, changeset: CodeChangeset, approvalId: string, meta: IntegrationMeta): FileRevision[] => {
+  const timestamp = Date.now();
+  return changeset.changes.map((change, idx) => {
+    const before = baseContentFor(project.files, changeset, idx);
+    const isRename = change.action === 'rename';
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      approvalId,
+      action: change.action,
+      fileName: isRename ? change.newFileName! : change.fileName,
+      ...(isRename ? { previousFileName: change.fileName } : {}),
+      before,
+      after: change.action === 'delete' ? null : (change.content ?? before),
+      timestamp,
+      description: changeset.description,
+      author: meta.author,
+      ...(changeset.sourceMessageId ? { sourceMessageId: changeset.sourceMessageId } : {}),
+      ...(meta.verdict ? { verdict: meta.verdict } : {}),
+      ...(meta.verdictOverridden ? { verdictOverridden: true } : {}),
+      ...(meta.revertOf ? { revertOf: meta.revertOf } : {})
+    };
+  });
+};
+
+// Applies a changeset and appends one revision per touched file, pruning old history; throws ChangesetError like applyChangeset
+export const integrateChangeset = (project: Project, changeset: CodeChangeset, meta: IntegrationMeta): Project => {
+  const files = applyChangeset(project.files, changeset);
+  const approvalId = Math.random().toString(36).substr(2, 9);
+  const revisions = buildRevisions(project, changeset, approvalId, meta);
+  return { ...project, files, revisions: pruneHistory([...(project.revisions || []), ...revisions]) };
+};
+
+export const groupApprovals = (revisions: FileRevision[]): Approval[] => {
+  const byId = new Map<string, Approval>();
+  revisions.forEach(rev => {
+    const existing = byId.get(rev.approvalId);
+    if (existing) {
+      existing.revisions.push(rev);
+      return;
+    }
+    byId.set(rev.approvalId, {
+      approvalId: rev.approvalId,
+      timestamp: rev.timestamp,
+      description: rev.description,
+      author: rev.author,
+      verdict: rev.verdict,
+      verdictOverridden: rev.verdictOverridden,
+      revertOf: rev.revertOf,
+      revisions: [rev]
+    });
+  });
+  return Array.from(byId.values()).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Every revision that produced or consumed the given path, newest first, following renames backwards
+export const fileHistory = (revisions: FileRevision[], fileName: string): FileRevision[] => {
+  const history: FileRevision[] = [];
+  let current = fileName;
+  for (let i = revisions.length - 1; i >= 0; i--) {
+    const rev = revisions[i];
+    if (rev.fileName !== current) continue;
+    history.push(rev);
+    if (rev.previousFileName) current = rev.previousFileName;
+  }
+  return history;
+};
+
+// Changeset restoring a single file to the state recorded after the given revision
+export const buildFileRevert = (project: Project, revision: FileRevision): CodeChangeset => {
+  const exists = project.files.some(f => f.name === revision.fileName);
+  const change: FileChange = revision.after === null
+    ? { action: 'delete', fileName: revision.fileName }
+    : { action: exists ? 'modify' : 'create', fileName: revision.fileName, content: revision.after };
+  return {
+    description: `Reverted ${revision.fileName} to revision from ${new Date(revision.timestamp).toLocaleString()}`,
+    changes: [change]
+  };
+};
+
+// Changeset undoing every file change of an approval, in reverse order
+export const buildApprovalRevert = (approval: Approval): CodeChangeset => ({
+  description: `Reverted approval: ${approval.description}`,
+  changes: approval.revisions.slice().reverse().map((rev): FileChange => {
+    if (rev.action === 'rename') {
+      return { action: 'rename', fileName: rev.fileName, newFileName: rev.previousFileName!, content: rev.before ?? undefined };
+    }
+    if (rev.before === null) return { action: 'delete', fileName: rev.fileName };
+    if (rev.after === null) return { action: 'create', fileName: rev.fileName, content: rev.before };
+    return { action: 'modify', fileName: rev.fileName, content: rev.before };
+  })
+});
+
+// Files whose current content no longer matches what the approval wrote; reverting would discard those later edits
+export const staleFilesForRevert = (project: Project, approval: Approval): string[] =>
+  approval.revisions
+    .filter(rev => {
+      const current = project.files.find(f => f.name === rev.fileName);
+      return rev.after === null ? !!current : current?.content !== rev.after;
+    })
+    .map(rev => rev.fileName);
@@ -0,0 +1,372 @@
+
+import { Project, ProjectThread, ActivityLog, SystemConfig, CodeChangeset, ChatMessage, ValidationVerdict, ResearchEntry, LocalDocument, UsageRecord } from "../types";
+import { parseChangeset } from "./changesetService";
+import { Cassette } from "./cassetteService";
+import { dedupeSources } from "./researchService";
+import { tryNormalizePath } from "./pathService";
+
+const DB_NAME = 'trinity-agent-system';
+
+// Bump together with a new entry in MIGRATIONS whenever a persisted type changes shape
+export const SCHEMA_VERSION = 7;
+
+// Activity is append-only; older entries are dropped to keep the store bounded
+const MAX_ACTIVITY_ENTRIES = 500;
+
+const STORE = {
+  projects: 'projects',
+  threads: 'threads',
+  activity: 'activity',
+  meta: 'meta',
+  research: 'research',
+  documents: 'documents',
+  usage: 'usage'
+} as const;
+
+// Stores whose records belong to one project through a projectId index
+const PROJECT_SCOPED = [STORE.research, STORE.documents, STORE.usage];
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// v1 proposals carried a single { fileName, content, description }
+const upgradeLegacyProposal = (proposal: any, project: Project | undefined): CodeChangeset | null => {
+  if (!proposal) return null;
+  if (Array.isArray(proposal.changes)) return proposal;
+  return parseChangeset({ action: 'propose_code', ...proposal }, project?.files || []);
+};
+
+// v2 stored the Validator's free-text report where a structured verdict now lives
+const upgradeLegacyVerdict = (report: unknown): ValidationVerdict | undefined => {
+  if (!report) return undefined;
+  if (typeof report !== 'string') return report as ValidationVerdict;
+  return { status: 'warn', summary: report, issues: [] };
+};
+
+// v5 stored file names verbatim from the model; unsafe names, or ones that would collide once normalized, are left as they were
+export const normalizeProjectPaths = (project: Project): Project => {
+  const taken = new Set<string>();
+  const renamed = new Map<string, string>();
+  project.files.forEach(file => {
+    const normalized = tryNormalizePath(file.name);
+    const target = taken.has(normalized) ? file.name : normalized;
+    taken.add(target);
+    if (target !== file.name) renamed.set(file.name, target);
+  });
+  if (renamed.size === 0) return project;
+  const rename = (name: string) => renamed.get(name) ?? name;
+  return {
+    ...project,
+    files: project.files.map(f => ({ ...f, name: rename(f.name) })),
+    revisions: project.revisions?.map(rev => ({
+      ...rev,
+      fileName: rename(rev.fileName),
+      ...(rev.previousFileName ? { previousFileName: rename(rev.previousFileName) } : {})
+    }))
+  };
+};
+
+// MIGRATIONS[n] upgrades a database from version n - 1 to n inside the versionchange transaction
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    db.createObjectStore(STORE.projects, { keyPath: 'id' });
+    db.createObjectStore(STORE.threads, { keyPath: 'projectId' });
+    const activity = db.createObjectStore(STORE.activity, { keyPath: 'id' });
+    activity.createIndex('timestamp', 'timestamp');
+    db.createObjectStore(STORE.meta);
+  },
+  2: (_db, tx) => {
+    const projects = tx.objectStore(STORE.projects);
+    const threads = tx.objectStore(STORE.threads);
+    threads.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const thread = cursor.value as ProjectThread;
+      projects.get(thread.projectId).onsuccess = (e) => {
+        const project = (e.target as IDBRequest<Project | undefined>).result;
+        cursor.update({
+          ...thread,
+          pendingProposal: upgradeLegacyProposal(thread.pendingProposal, project),
+          messages: thread.messages.map((m): ChatMessage => m.pendingChange
+            ? { ...m, pendingChange: upgradeLegacyProposal(m.pendingChange, project) || undefined }
+            : m)
+        });
+        cursor.continue();
+      };
+    };
+  },
+  3: (_db, tx) => {
+    tx.objectStore(STORE.threads).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { validationReport, ...thread } = cursor.value;
+      cursor.update({ ...thread, validation: upgradeLegacyVerdict(validationReport) || null });
+      cursor.continue();
+    };
+    tx.objectStore(STORE.projects).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const project = cursor.value as Project;
+      if (project.revisions?.length) {
+        cursor.update({
+          ...project,
+          revisions: project.revisions.map(rev => rev.verdict ? { ...rev, verdict: upgradeLegacyVerdict(rev.verdict) } : rev)
+        });
+      }
+      cursor.continue();
+    };
+  },
+  4: (db, tx) => {
+    const research = db.createObjectStore(STORE.research, { keyPath: 'id' });
+    research.createIndex('projectId', 'projectId');
+    // v3 threads kept only a flat list of sources; they become one library entry so nothing is lost
+    tx.objectStore(STORE.threads).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { researchSources, ...thread } = cursor.value;
+      const sources = dedupeSources(researchSources || []);
+      if (sources.length > 0) {
+        research.put({
+          id: `legacy-${thread.projectId}`,
+          projectId: thread.projectId,
+          query: 'Sources gathered before the research library',
+          findings: '',
+          sources,
+          tags: ['imported'],
+          pinned: false,
+          createdAt: thread.updatedAt || Date.now()
+        } as ResearchEntry);
+      }
+      cursor.update(thread);
+      cursor.continue();
+    };
+  },
+  5: (db) => {
+    db.createObjectStore(STORE.documents, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+  },
+  6: (_db, tx) => {
+    tx.objectStore(STORE.projects).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update(normalizeProjectPaths(cursor.value as Project));
+      cursor.continue();
+    };
+  },
+  7: (db) => {
+    db.createObjectStore(STORE.usage, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+  }
+};
+
+export interface WorkspaceSnapshot {
+  projects: Project[];
+  activity: ActivityLog[];
+  config: SystemConfig | null;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Storage transaction aborted'));
+  });
+
+export class StorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion + 1; version <= SCHEMA_VERSION; version++) {
+          MIGRATIONS[version]?.(db, tx);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema; release our handle so it is not blocked
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Storage upgrade blocked by another open Trinity tab'));
+    });
+
+    this.dbPromise.catch(() => { this.dbPromise = null; });
+    return this.dbPromise;
+  }
+
+  async loadWorkspace(): Promise<WorkspaceSnapshot> {
+    const db = await this.open();
+    const tx = db.transaction([STORE.projects, STORE.activity, STORE.meta], 'readonly');
+
+    const [projects, activity, config] = await Promise.all([
+      requestToPromise(tx.objectStore(STORE.projects).getAll() as IDBRequest<Project[]>),
+      requestToPromise(tx.objectStore(STORE.activity).index('timestamp').getAll() as IDBRequest<ActivityLog[]>),
+      requestToPromise(tx.objectStore(STORE.meta).get('systemConfig') as IDBRequest<SystemConfig | undefined>)
+    ]);
+
+    return {
+      projects: projects.sort((a, b) => a.createdAt - b.createdAt),
+      activity,
+      config: config || null
+    };
+  }
+
+  async saveProjects(projects: Project[]) {
+    const db = await this.open();
+    const tx = db.transaction([STORE.projects, STORE.threads, ...PROJECT_SCOPED], 'readwrite');
+    const store = tx.objectStore(STORE.projects);
+    const threads = tx.objectStore(STORE.threads);
+
+    const storedIds = await requestToPromise(store.getAllKeys());
+    const liveIds = new Set(projects.map(p => p.id));
+
+    // Projects missing from the live list were deleted; drop their threads, research and documents alongside them
+    storedIds.filter(id => !liveIds.has(id as string)).forEach(id => {
+      store.delete(id);
+      threads.delete(id);
+      PROJECT_SCOPED.forEach(name => {
+        const scoped = tx.objectStore(name);
+        scoped.index('projectId').getAllKeys(id).onsuccess = (event) => {
+          ((event.target as IDBRequest<IDBValidKey[]>).result).forEach(key => scoped.delete(key));
+        };
+      });
+    });
+    projects.forEach(p => store.put(p));
+
+    return transactionDone(tx);
+  }
+
+  async saveActivity(activity: ActivityLog[]) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.activity, 'readwrite');
+    const store = tx.objectStore(STORE.activity);
+    store.clear();
+    activity.slice(-MAX_ACTIVITY_ENTRIES).forEach(log => store.put(log));
+    return transactionDone(tx);
+  }
+
+  async saveConfig(config: SystemConfig) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.meta, 'readwrite');
+    tx.objectStore(STORE.meta).put(config, 'systemConfig');
+    return transactionDone(tx);
+  }
+
+  async loadCassette(): Promise<Cassette | null> {
+    const db = await this.open();
+    const tx = db.transaction(STORE.meta, 'readonly');
+    const cassette = await requestToPromise(tx.objectStore(STORE.meta).get('cassette') as IDBRequest<Cassette | undefined>);
+    return cassette || null;
+  }
+
+  async saveCassette(cassette: Cassette) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.meta, 'readwrite');
+    tx.objectStore(STORE.meta).put(cassette, 'cassette');
+    return transactionDone(tx);
+  }
+
+  async loadResearch(projectId: string): Promise<ResearchEntry[]> {
+    const db = await this.open();
+    const tx = db.transaction(STORE.research, 'readonly');
+    const entries = await requestToPromise(tx.objectStore(STORE.research).index('projectId').getAll(projectId) as IDBRequest<ResearchEntry[]>);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async saveResearchEntry(entry: ResearchEntry) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.research, 'readwrite');
+    tx.objectStore(STORE.research).put(entry);
+    return transactionDone(tx);
+  }
+
+  async deleteResearchEntry(id: string) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.research, 'readwrite');
+    tx.objectStore(STORE.research).delete(id);
+    return transactionDone(tx);
+  }
+
+  async loadDocuments(projectId: string): Promise<LocalDocument[]> {
+    const db = await this.open();
+    const tx = db.transaction(STORE.documents, 'readonly');
+    const docs = await requestToPromise(tx.objectStore(STORE.documents).index('projectId').getAll(projectId) as IDBRequest<LocalDocument[]>);
+    return docs.sort((a, b) => a.importedAt - b.importedAt);
+  }
+
+  async saveDocuments(docs: LocalDocument[]) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.documents, 'readwrite');
+    const store = tx.objectStore(STORE.documents);
+    docs.forEach(doc => store.put(doc));
+    return transactionDone(tx);
+  }
+
+  async deleteDocument(id: string) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.documents, 'readwrite');
+    tx.objectStore(STORE.documents).delete(id);
+    return transactionDone(tx);
+  }
+
+  async loadUsage(): Promise<UsageRecord[]> {
+    const db = await this.open();
+    const tx = db.transaction(STORE.usage, 'readonly');
+    const records = await requestToPromise(tx.objectStore(STORE.usage).getAll() as IDBRequest<UsageRecord[]>);
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async saveUsageRecord(record: UsageRecord) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.usage, 'readwrite');
+    tx.objectStore(STORE.usage).put(record);
+    return transactionDone(tx);
+  }
+
+  async loadThread(projectId: string): Promise<ProjectThread | null> {
+    const db = await this.open();
+    const tx = db.transaction(STORE.threads, 'readonly');
+    const thread = await requestToPromise(tx.objectStore(STORE.threads).get(projectId) as IDBRequest<ProjectThread | undefined>);
+    return thread || null;
+  }
+
+  async saveThread(thread: ProjectThread) {
+    const db = await this.open();
+    const tx = db.transaction(STORE.threads, 'readwrite');
+    tx.objectStore(STORE.threads).put(thread);
+    return transactionDone(tx);
+  }
+
+  // Writes an imported workspace in one transaction, so a failed import leaves nothing half-restored
+  async importWorkspace(project: Project, thread: ProjectThread | null, research: ResearchEntry[], documents: LocalDocument[]) {
+    const db = await this.open();
+    const tx = db.transaction([STORE.projects, STORE.threads, ...PROJECT_SCOPED], 'readwrite');
+    tx.objectStore(STORE.projects).put(project);
+    if (thread) tx.objectStore(STORE.threads).put(thread);
+    research.forEach(entry => tx.objectStore(STORE.research).put(entry));
+    documents.forEach(doc => tx.objectStore(STORE.documents).put(doc));
+    return transactionDone(tx);
+  }
+}
+
+export const storage = new StorageService();
@@ -0,0 +1,255 @@
+
+import { CodeChangeset, ProjectFile, TestCaseResult, TestRunReport } from "../types";
+import { applyChangeset } from "./changesetService";
+import { compiler, isTranspilable } from "./compilerService";
+import { importSpecifiers, resolveImport } from "./pathService";
+import type { SandboxMessage, SandboxRequest } from "./testSandbox.worker";
+import sandboxEntrySource from "./testSandbox.worker.ts?raw";
+import testRuntimeSource from "./testRuntime.ts?raw";
+import pathServiceSource from "./pathService.ts?raw";
+
+// Runs workspace tests in a worker sandbox under wall-clock limits.
+// The worker starts from a blob inside a sandboxed frame whose Content Security Policy allows no network requests and no remote scripts;
+// workers created from blobs inherit that policy, so it holds even for code that reaches eval or dynamic import.
+// Output is bounded twice: the sandbox clips every string it posts, and the run is stopped once its results outgrow the budgets below,
+// so a test that loops over test() calls or failure messages cannot flood the page.
+// Memory: all tests of a run share one worker and nothing is reclaimed between them, but every run starts a fresh worker, so leaks never
+// outlive the run. Browsers expose no heap cap or reading for workers; the engine's per-worker heap limit kills a test that allocates
+// without bound, which surfaces here as a sandbox crash charged to the test that was running.
+
+export const RUN_TIMEOUT_MS = 30_000;
+export const TEST_TIMEOUT_MS = 5_000;
+export const MAX_RESULTS = 1000;
+// Characters of names, errors and logs across a run's results
+export const MAX_OUTPUT_CHARS = 1_000_000;
+
+export const isTestFile = (name: string) =>
+  isTranspilable(name) && (/\.(test|spec)\.[mc]?[jt]sx?$/i.test(name) || /(^|\/)__tests__\//.test(name));
+
+export const testFilesIn = (files: ProjectFile[]) => files.map(f => f.name).filter(isTestFile);
+
+// Test files whose import graph reaches any of the given files
+const testsReaching = (files: ProjectFile[], targets: string[]) => {
+  const names = new Set(files.map(f => f.name));
+  const exists = (name: string) => names.has(name);
+  const imports = new Map(files.map(f => [f.name, importSpecifiers(f.content).map(spec => resolveImport(exists, f.name, spec))
+    .filter((name): name is string => !!name)]));
+  const wanted = new Set(targets);
+
+  return testFilesIn(files).filter(test => {
+    const visited = new Set<string>();
+    const queue = [test];
+    while (queue.length) {
+      const name = queue.pop()!;
+      if (wanted.has(name)) return true;
+      if (visited.has(name)) continue;
+      visited.add(name);
+      queue.push(...(imports.get(name) || []));
+    }
+    return false;
+  });
+};
+
+// Tests a changeset can affect: those touching changed files afterwards, and those that imported files it deletes or moves away
+export const affectedTestFiles = (files: ProjectFile[], proposed: ProjectFile[], changeset: CodeChangeset) => {
+  const remaining = new Set(proposed.map(f => f.name));
+  const after = testsReaching(proposed, changeset.changes.map(c => c.newFileName || c.fileName));
+  const before = testsReaching(files, changeset.changes.filter(c => c.action === 'delete' || c.action === 'rename').map(c => c.fileName));
+  return Array.from(new Set([...after, ...before.filter(test => remaining.has(test))]));
+};
+
+const SANDBOX_ENTRY = 'services/testSandbox.worker.ts';
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+// Messages the sandbox frame relays to the page
+type FrameMessage = { token: string } & ({ ready: true } | { message: SandboxMessage } | { crash: string });
+
+// Self-contained worker script: the sandbox's own modules behind a minimal CommonJS loader.
+// Specifiers resolve next to the importer; type-only modules are not bundled and load as empty.
+const workerScript = (modules: Record<string, string>) => `(() => {
+  const sources = ${JSON.stringify(modules)};
+  const cache = {};
+  const load = name => {
+    if (!(name in sources)) return {};
+    if (cache[name]) return cache[name].exports;
+    const module = cache[name] = { exports: {} };
+    new Function('exports', 'require', 'module', sources[name])(module.exports, spec => load(name.replace(/[^/]*$/, '') + spec.replace(/^\\.\\//, '') + '.ts'), module);
+    return module.exports;
+  };
+  load(${JSON.stringify(SANDBOX_ENTRY)});
+})();`;
+
+// Starts the worker once the page sends the script and request, then relays everything it posts back
+const sandboxDocument = (token: string) => `<!DOCTYPE html>
+<html><head>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}">
+<script>
+  const token = ${JSON.stringify(token)};
+  const send = message => parent.postMessage({ token, ...message }, '*');
+  addEventListener('message', event => {
+    if (event.source !== parent) return;
+    try {
+      const worker = new Worker(URL.createObjectURL(new Blob([event.data.script], { type: 'text/javascript' })));
+      worker.onmessage = e => send({ message: e.data });
+      worker.onerror = e => { e.preventDefault(); send({ crash: e.message || '' }); };
+      worker.postMessage(event.data.request);
+    } catch (error) {
+      send({ crash: 'the worker could not start: ' + error.message });
+    }
+  }, { once: true });
+  send({ ready: true });
+</script>
+</head><body></body></html>`;
+
+let sandboxScript: Promise<string> | null = null;
+
+// Transpiled once per session; a failed attempt is retried on the next run
+const loadSandboxScript = () => {
+  sandboxScript ??= compiler.transpile([
+    { name: SANDBOX_ENTRY, content: sandboxEntrySource, language: 'typescript' },
+    { name: 'services/testRuntime.ts', content: testRuntimeSource, language: 'typescript' },
+    { name: 'services/pathService.ts', content: pathServiceSource, language: 'typescript' }
+  ]).then(result => {
+    if (result.errors.length) throw new Error(result.errors[0].message);
+    return workerScript(result.modules);
+  });
+  sandboxScript.catch(() => { sandboxScript = null; });
+  return sandboxScript;
+};
+
+// Aborting the signal stops the compile or the sandbox and rejects with the signal's reason
+export const runTests = async (files: ProjectFile[], testFiles: string[], scope: TestRunReport['scope'], signal?: AbortSignal): Promise<TestRunReport> => {
+  const startedAt = Date.now();
+  const results: TestCaseResult[] = [];
+  const report = (error?: string): TestRunReport => ({
+    scope,
+    status: results.some(r => r.status === 'fail') || error ? 'fail' : 'pass',
+    testFiles,
+    results,
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    ...(error ? { error } : {})
+  });
+
+  let sources: Record<string, string>;
+  let script: string;
+  try {
+    const transpiled = await compiler.transpile(files, 'commonjs', signal);
+    sources = { ...transpiled.modules };
+    files.filter(f => f.name.endsWith('.json')).forEach(f => { sources[f.name] = f.content; });
+    // A file that does not parse fails whichever test imports it, with the compiler's message
+    transpiled.errors.forEach(d => {
+      sources[d.fileName] ??= `throw new SyntaxError(${JSON.stringify(`${d.fileName}:${d.line}:${d.column} ${d.message}`)});`;
+    });
+  } catch (error: any) {
+    signal?.throwIfAborted();
+    return { ...report(`Tests could not be compiled: ${error.message}`), status: 'error' };
+  }
+  try {
+    script = await loadSandboxScript();
+  } catch (error: any) {
+    return { ...report(`Test sandbox could not be prepared: ${error.message}`), status: 'error' };
+  }
+
+  if (typeof Worker === 'undefined') return { ...report('Web Workers are not supported in this browser.'), status: 'error' };
+  signal?.throwIfAborted();
+
+  return new Promise((resolve, reject) => {
+    const token = Math.random().toString(36).slice(2);
+    const frame = document.createElement('iframe');
+    frame.sandbox.add('allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = sandboxDocument(token);
+    let running: { fileName: string; name: string; started: number } | null = null;
+    let settled = false;
+    let outputChars = 0;
+
+    const stop = () => {
+      settled = true;
+      clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+      signal?.removeEventListener('abort', onAbort);
+      // Discarding the frame also stops the worker it started
+      frame.remove();
+    };
+    const onAbort = () => {
+      if (settled) return;
+      stop();
+      reject(signal!.reason);
+    };
+    const finish = (error?: string) => {
+      if (settled) return;
+      stop();
+      // The test that was running when the sandbox stopped is the one that broke the limit
+      if (error && running) {
+        results.push({ fileName: running.fileName, name: running.name, status: 'fail', durationMs: Date.now() - running.started, error });
+      }
+      resolve(report(error));
+    };
+
+    const timer = setTimeout(() => finish(`Run exceeded the ${RUN_TIMEOUT_MS / 1000}s time limit and was stopped.`), RUN_TIMEOUT_MS);
+    const handle = (message: SandboxMessage) => {
+      if (message.type === 'start') {
+        running = { fileName: message.fileName, name: message.name, started: Date.now() };
+      } else if (message.type === 'result') {
+        results.push(message.result);
+        running = null;
+        const { name, error = '', logs = [] } = message.result;
+        outputChars += name.length + error.length + logs.reduce((sum, line) => sum + line.length, 0);
+        if (results.length > MAX_RESULTS || outputChars > MAX_OUTPUT_CHARS) {
+          finish(`Run exceeded the output limit of ${MAX_RESULTS} results or ${MAX_OUTPUT_CHARS / 1_000_000}M characters and was stopped.`);
+        }
+      } else {
+        finish();
+      }
+    };
+    const onMessage = (event: MessageEvent<FrameMessage>) => {
+      const data = event.data;
+      if (event.source !== frame.contentWindow || !data || data.token !== token) return;
+      if ('ready' in data) {
+        const request: SandboxRequest = { sources, testFiles, testTimeoutMs: TEST_TIMEOUT_MS };
+        frame.contentWindow!.postMessage({ script, request }, '*');
+      } else if ('crash' in data) {
+        finish(`Sandbox crashed: ${data.crash || 'the worker was stopped, possibly by running out of memory'}`);
+      } else {
+        handle(data.message);
+      }
+    };
+    window.addEventListener('message', onMessage);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    document.body.appendChild(frame);
+  });
+};
+
+// Runs the tests a proposal affects against the workspace as it would be after approval; null when it touches no tested code
+export const runChangesetTests = async (files: ProjectFile[], changeset: CodeChangeset, signal?: AbortSignal): Promise<TestRunReport | null> => {
+  let proposed: ProjectFile[];
+  try {
+    proposed = applyChangeset(files, changeset);
+  } catch {
+    return null;
+  }
+  const testFiles = affectedTestFiles(files, proposed, changeset);
+  return testFiles.length ? runTests(proposed, testFiles, 'proposal', signal) : null;
+};
+
+export const testCounts = (report: TestRunReport) => ({
+  passed: report.results.filter(r => r.status === 'pass').length,
+  failed: report.results.filter(r => r.status === 'fail').length,
+  skipped: report.results.filter(r => r.status === 'skip').length
+});
+
+export const describeTestRun = (report: TestRunReport) => {
+  if (report.status === 'error') return report.error || 'Tests could not run.';
+  const { passed, failed, skipped } = testCounts(report);
+  const seconds = (report.durationMs / 1000).toFixed(1);
+  return `Tests ${report.status === 'pass' ? 'passed' : 'failed'}: ${passed} passed, ${failed} failed${skipped ? `, ${skipped} skipped` : ''} across ${report.testFiles.length} file(s) in ${seconds}s.`;
+};
+
+// Test outcome for the Validator prompt
+export const formatTestReport = (report: TestRunReport) => {
+  const failures = report.results
+    .filter(r => r.status === 'fail')
+    .map(r => `FAIL ${r.fileName} › ${r.name}\n    ${(r.error || '').replace(/\n/g, '\n    ')}`);
+  return [describeTestRun(report), ...(report.error && report.status !== 'error' ? [report.error] : []), ...failures].join('\n');
+};
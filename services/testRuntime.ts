@@ -0,0 +1,371 @@
+
+import { TestCaseResult } from "../types";
+import { parentPath, resolveImport } from "./pathService";
+
+// What runs inside the test sandbox: a CommonJS loader over transpiled workspace files and a small describe/it/expect harness
+
+type TestFn = () => unknown;
+
+interface TestEntry {
+  name: string;
+  fn?: TestFn;
+  skip: boolean;
+}
+
+interface Suite {
+  name: string;
+  skip: boolean;
+  // Tests and nested suites in declaration order
+  entries: ({ test: TestEntry } | { suite: Suite })[];
+  beforeAll: TestFn[];
+  afterAll: TestFn[];
+  beforeEach: TestFn[];
+  afterEach: TestFn[];
+}
+
+export interface RunOptions {
+  testTimeoutMs: number;
+  onStart: (name: string) => void;
+  onResult: (result: TestCaseResult) => void;
+}
+
+const MAX_LOG_LINES = 50;
+const MAX_LOG_LENGTH = 500;
+const MAX_FORMAT_LENGTH = 200;
+
+export class AssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssertionError';
+  }
+}
+
+const format = (value: unknown): string => {
+  let text: string;
+  if (typeof value === 'string') text = JSON.stringify(value);
+  else if (typeof value === 'bigint') text = `${value}n`;
+  else if (typeof value === 'function') text = `[Function ${value.name || 'anonymous'}]`;
+  else if (value === null || typeof value !== 'object') text = String(value);
+  else if (value instanceof Error) text = `${value.name}: ${value.message}`;
+  else if (value instanceof Map) text = `Map ${format(Array.from(value))}`;
+  else if (value instanceof Set) text = `Set ${format(Array.from(value))}`;
+  else {
+    try {
+      text = JSON.stringify(value) ?? String(value);
+    } catch {
+      text = Object.prototype.toString.call(value);
+    }
+  }
+  return text.length > MAX_FORMAT_LENGTH ? `${text.slice(0, MAX_FORMAT_LENGTH)}…` : text;
+};
+
+// toEqual ignores undefined properties; toStrictEqual also compares them and prototypes
+const equals = (a: any, b: any, strict: boolean, seen = new Map<object, object>()): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+  if (a instanceof Date || b instanceof Date) return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  if (a instanceof RegExp || b instanceof RegExp) return a instanceof RegExp && b instanceof RegExp && String(a) === String(b);
+  if (Array.isArray(a) !== Array.isArray(b) || (a instanceof Map) !== (b instanceof Map) || (a instanceof Set) !== (b instanceof Set)) return false;
+  if (seen.get(a) === b) return true;
+  seen.set(a, b);
+  if (a instanceof Map) {
+    return a.size === b.size && Array.from(a).every(([key, value]) => b.has(key) && equals(value, b.get(key), strict, seen));
+  }
+  if (a instanceof Set) {
+    return a.size === b.size && Array.from(a).every(value => b.has(value) || Array.from(b).some(other => equals(value, other, strict, seen)));
+  }
+  const keys = (o: any) => Object.keys(o).filter(k => strict || o[k] !== undefined);
+  const aKeys = keys(a);
+  const bKeys = keys(b);
+  return aKeys.length === bKeys.length && aKeys.every(k => Object.prototype.hasOwnProperty.call(b, k) && equals(a[k], b[k], strict, seen));
+};
+
+const matchersFor = (actual: any, negated: boolean) => {
+  const assert = (pass: boolean, description: string) => {
+    if (pass === negated) throw new AssertionError(`expected ${format(actual)} ${negated ? 'not ' : ''}${description}`);
+  };
+  return {
+    toBe: (expected: unknown) => assert(Object.is(actual, expected), `to be ${format(expected)}`),
+    toEqual: (expected: unknown) => assert(equals(actual, expected, false), `to equal ${format(expected)}`),
+    toStrictEqual: (expected: unknown) => assert(equals(actual, expected, true), `to strictly equal ${format(expected)}`),
+    toBeTruthy: () => assert(!!actual, 'to be truthy'),
+    toBeFalsy: () => assert(!actual, 'to be falsy'),
+    toBeNull: () => assert(actual === null, 'to be null'),
+    toBeUndefined: () => assert(actual === undefined, 'to be undefined'),
+    toBeDefined: () => assert(actual !== undefined, 'to be defined'),
+    toBeNaN: () => assert(Number.isNaN(actual), 'to be NaN'),
+    toBeGreaterThan: (n: number) => assert(actual > n, `to be greater than ${n}`),
+    toBeGreaterThanOrEqual: (n: number) => assert(actual >= n, `to be greater than or equal to ${n}`),
+    toBeLessThan: (n: number) => assert(actual < n, `to be less than ${n}`),
+    toBeLessThanOrEqual: (n: number) => assert(actual <= n, `to be less than or equal to ${n}`),
+    toBeCloseTo: (n: number, digits = 2) => assert(Math.abs(actual - n) < 10 ** -digits / 2, `to be close to ${n}`),
+    toBeInstanceOf: (type: Function) => assert(actual instanceof type, `to be an instance of ${type.name}`),
+    toContain: (item: unknown) => assert(
+      typeof actual === 'string' ? actual.includes(item as string) : Array.from(actual ?? []).includes(item),
+      `to contain ${format(item)}`
+    ),
+    toContainEqual: (item: unknown) => assert(Array.from(actual ?? []).some(value => equals(value, item, false)), `to contain equal ${format(item)}`),
+    toHaveLength: (length: number) => assert(actual?.length === length, `to have length ${length}`),
+    toHaveProperty: (...args: [string, unknown?]) => {
+      let target = actual;
+      const found = args[0].split('.').every(key => {
+        if (target === null || target === undefined || !(key in Object(target))) return false;
+        target = target[key];
+        return true;
+      });
+      assert(found && (args.length < 2 || equals(target, args[1], false)), `to have property ${args[0]}${args.length < 2 ? '' : ` equal to ${format(args[1])}`}`);
+    },
+    toMatch: (pattern: string | RegExp) => assert(
+      typeof actual === 'string' && (typeof pattern === 'string' ? actual.includes(pattern) : pattern.test(actual)),
+      `to match ${String(pattern)}`
+    ),
+    toThrow: (expected?: string | RegExp | Function) => {
+      if (typeof actual !== 'function') throw new AssertionError('toThrow expects a function');
+      let thrown: unknown;
+      let didThrow = false;
+      try {
+        actual();
+      } catch (error) {
+        didThrow = true;
+        thrown = error;
+      }
+      const message = thrown instanceof Error ? thrown.message : String(thrown);
+      const matches = didThrow && (
+        expected === undefined ? true
+        : typeof expected === 'string' ? message.includes(expected)
+        : expected instanceof RegExp ? expected.test(message)
+        : thrown instanceof expected
+      );
+      const label = expected === undefined ? '' : typeof expected === 'function' ? ` ${expected.name}` : ` ${format(String(expected))}`;
+      assert(matches, `to throw${label}${didThrow && !matches ? `, but it threw ${format(thrown)}` : ''}`);
+    }
+  };
+};
+
+type Matchers = ReturnType<typeof matchersFor>;
+type AsyncMatchers = { [K in keyof Matchers]: (...args: Parameters<Matchers[K]>) => Promise<void> };
+
+// Awaits the promise, then applies the matcher to what it settled with.
+// For rejections toThrow sees a function rethrowing the reason, as in `await expect(p).rejects.toThrow('msg')`
+const settledMatchers = (settle: () => Promise<unknown>, rejected: boolean): AsyncMatchers => {
+  const names = Object.keys(matchersFor(undefined, false)) as (keyof Matchers)[];
+  return Object.fromEntries(names.map(name => [name, async (...args: any[]) => {
+    const value = await settle();
+    const actual = rejected && name === 'toThrow' ? () => { throw value; } : value;
+    return (matchersFor(actual, false)[name] as any)(...args);
+  }])) as AsyncMatchers;
+};
+
+export const expect = (actual: any) => ({
+  ...matchersFor(actual, false),
+  not: matchersFor(actual, true),
+  resolves: settledMatchers(() => Promise.resolve(actual), false),
+  rejects: settledMatchers(() => Promise.resolve(actual).then(
+    value => { throw new AssertionError(`expected promise to reject, but it resolved to ${format(value)}`); },
+    reason => reason
+  ), true)
+});
+
+const newSuite = (name: string, skip: boolean): Suite => ({ name, skip, entries: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [] });
+
+// Globals a test file sees, also returned when it imports vitest or @jest/globals
+const createHarness = () => {
+  const root = newSuite('', false);
+  let current = root;
+
+  const addSuite = (name: string, fn: () => unknown, skip: boolean) => {
+    const suite = newSuite(name, skip || current.skip);
+    current.entries.push({ suite });
+    const parent = current;
+    current = suite;
+    try {
+      fn();
+    } finally {
+      current = parent;
+    }
+  };
+  const addTest = (name: string, fn: TestFn | undefined, skip: boolean) => {
+    current.entries.push({ test: { name, fn, skip: skip || current.skip } });
+  };
+
+  // only runs like a plain test: the sandbox always runs whole files
+  const describe = Object.assign((name: string, fn: () => unknown) => addSuite(name, fn, false), {
+    skip: (name: string, fn: () => unknown) => addSuite(name, fn, true),
+    only: (name: string, fn: () => unknown) => addSuite(name, fn, false)
+  });
+  const it = Object.assign((name: string, fn: TestFn) => addTest(name, fn, false), {
+    skip: (name: string, fn?: TestFn) => addTest(name, fn, true),
+    only: (name: string, fn: TestFn) => addTest(name, fn, false),
+    todo: (name: string) => addTest(name, undefined, true)
+  });
+
+  const globals = {
+    describe,
+    it,
+    test: it,
+    expect,
+    beforeAll: (fn: TestFn) => { current.beforeAll.push(fn); },
+    afterAll: (fn: TestFn) => { current.afterAll.push(fn); },
+    beforeEach: (fn: TestFn) => { current.beforeEach.push(fn); },
+    afterEach: (fn: TestFn) => { current.afterEach.push(fn); }
+  };
+  return { root, globals };
+};
+
+// A fresh registry per test file, so module state never leaks between files
+const createRequire = (sources: Record<string, string>, builtins: Record<string, unknown>) => {
+  const cache = new Map<string, { exports: any }>();
+  const exists = (name: string) => Object.prototype.hasOwnProperty.call(sources, name);
+
+  const load = (path: string): unknown => {
+    const cached = cache.get(path);
+    if (cached) return cached.exports;
+    const module = { exports: {} as any };
+    cache.set(path, module);
+    try {
+      if (path.endsWith('.json')) {
+        module.exports = JSON.parse(sources[path]);
+      } else {
+        const factory = new Function('exports', 'require', 'module', '__filename', '__dirname', `${sources[path]}\n//# sourceURL=sandbox:///${path}`);
+        factory.call(module.exports, module.exports, (specifier: string) => requireFrom(path, specifier), module, path, parentPath(path));
+      }
+    } catch (error) {
+      cache.delete(path);
+      throw error;
+    }
+    return module.exports;
+  };
+
+  const requireFrom = (from: string, specifier: string): unknown => {
+    if (Object.prototype.hasOwnProperty.call(builtins, specifier)) return builtins[specifier];
+    const resolved = resolveImport(exists, from, specifier);
+    if (resolved) return load(resolved);
+    throw new Error(/^(\.|\/)/.test(specifier)
+      ? `Cannot find module '${specifier}' from ${from}`
+      : `Cannot import '${specifier}': packages are not available in the test sandbox`);
+  };
+
+  return load;
+};
+
+const withTimeout = async (fn: TestFn, ms: number) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      Promise.resolve().then(fn),
+      new Promise((_resolve, reject) => { timer = setTimeout(() => reject(new Error(`Exceeded the ${ms}ms test time limit`)), ms); })
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Falsy throws such as throw undefined still fail the test
+const asFailure = (thrown: unknown) => thrown || new Error(`Non-error thrown: ${format(thrown)}`);
+
+const describeError = (error: unknown) => error instanceof Error ? `${error.name}: ${error.message}` : `Thrown: ${format(error)}`;
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+
+export const runTestFile = async (fileName: string, sources: Record<string, string>, options: RunOptions) => {
+  const { root, globals } = createHarness();
+  const scope = globalThis as any;
+  const previousGlobals = Object.keys(globals).map(key => [key, scope[key]] as const);
+  const previousConsole = CONSOLE_METHODS.map(method => [method, console[method]] as const);
+  const logs: string[] = [];
+  // Errors thrown from timers or unawaited promises fail whichever test is running
+  let uncaught: unknown = null;
+  const onUncaught = (event: any) => {
+    event.preventDefault?.();
+    uncaught ??= asFailure(event.error ?? event.reason ?? event.message);
+  };
+
+  Object.assign(scope, globals);
+  CONSOLE_METHODS.forEach(method => {
+    console[method] = (...args: unknown[]) => {
+      if (logs.length >= MAX_LOG_LINES) return;
+      const line = args.map(a => typeof a === 'string' ? a : format(a)).join(' ');
+      logs.push(`${method === 'log' ? '' : `[${method}] `}${line.slice(0, MAX_LOG_LENGTH)}`);
+    };
+  });
+  scope.addEventListener?.('error', onUncaught);
+  scope.addEventListener?.('unhandledrejection', onUncaught);
+
+  const report = (name: string, started: number, error: unknown) => options.onResult({
+    fileName,
+    name,
+    status: error ? 'fail' : 'pass',
+    durationMs: Math.round(performance.now() - started),
+    ...(error ? { error: describeError(error) } : {}),
+    ...(logs.length ? { logs: logs.splice(0) } : {})
+  });
+
+  const runSuite = async (suite: Suite, path: string[], before: TestFn[], after: TestFn[], inherited: unknown): Promise<void> => {
+    const beforeEach = [...before, ...suite.beforeEach];
+    const afterEach = [...suite.afterEach, ...after];
+    let setupError = inherited;
+    if (!setupError && !suite.skip) {
+      try {
+        for (const hook of suite.beforeAll) await withTimeout(hook, options.testTimeoutMs);
+      } catch (error) {
+        setupError = asFailure(error);
+      }
+    }
+
+    for (const entry of suite.entries) {
+      if ('suite' in entry) {
+        await runSuite(entry.suite, [...path, entry.suite.name], beforeEach, afterEach, setupError);
+        continue;
+      }
+      const { test } = entry;
+      const name = [...path, test.name].join(' › ');
+      if (test.skip || !test.fn) {
+        options.onResult({ fileName, name, status: 'skip', durationMs: 0 });
+        continue;
+      }
+      options.onStart(name);
+      const started = performance.now();
+      let error = setupError;
+      uncaught = null;
+      if (!error) {
+        try {
+          for (const hook of beforeEach) await withTimeout(hook, options.testTimeoutMs);
+          await withTimeout(test.fn, options.testTimeoutMs);
+        } catch (thrown) {
+          error = asFailure(thrown);
+        }
+        try {
+          for (const hook of afterEach) await withTimeout(hook, options.testTimeoutMs);
+        } catch (thrown) {
+          error ??= asFailure(thrown);
+        }
+      }
+      report(name, started, error ?? uncaught);
+    }
+
+    if (!suite.skip) {
+      try {
+        for (const hook of suite.afterAll) await withTimeout(hook, options.testTimeoutMs);
+      } catch (error) {
+        report([...path, 'afterAll'].join(' › '), performance.now(), asFailure(error));
+      }
+    }
+  };
+
+  try {
+    const started = performance.now();
+    try {
+      createRequire(sources, { vitest: globals, '@jest/globals': globals })(fileName);
+    } catch (error) {
+      report('(module load)', started, asFailure(error));
+      return;
+    }
+    await runSuite(root, [], [], [], null);
+  } finally {
+    previousGlobals.forEach(([key, value]) => { scope[key] = value; });
+    previousConsole.forEach(([method, fn]) => { console[method] = fn; });
+    scope.removeEventListener?.('error', onUncaught);
+    scope.removeEventListener?.('unhandledrejection', onUncaught);
+  }
+};
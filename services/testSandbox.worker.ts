@@ -0,0 +1,60 @@
+
+import { TestCaseResult } from '../types';
+import { runTestFile } from './testRuntime';
+
+// Executes transpiled workspace tests. Each run gets a fresh worker inside a sandboxed frame, whose Content Security Policy blocks the network;
+// the page discards the frame once the run ends or overruns its time limit.
+
+export interface SandboxRequest {
+  // CommonJS modules and raw JSON keyed by workspace file name
+  sources: Record<string, string>;
+  testFiles: string[];
+  testTimeoutMs: number;
+}
+
+export type SandboxMessage =
+  | { type: 'start'; fileName: string; name: string }
+  | { type: 'result'; result: TestCaseResult }
+  | { type: 'done' };
+
+// Everything that can reach the network or escape into other contexts
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts', 'Worker', 'SharedWorker', 'BroadcastChannel', 'indexedDB', 'caches'];
+
+const post = self.postMessage.bind(self) as (message: SandboxMessage) => void;
+
+// Longest name or error message sent to the page; the runtime already bounds captured logs
+const MAX_TEXT_LENGTH = 4000;
+const clip = (text: string) => text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}... [${text.length - MAX_TEXT_LENGTH} more characters]` : text;
+
+// Removed from the global object and its prototype chain before any workspace code runs, on top of the frame's policy
+const lockDown = () => {
+  for (let target: any = self; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const name of BLOCKED_GLOBALS) {
+      try {
+        delete target[name];
+      } catch {
+        // Non-configurable in this browser; shadowed below instead
+      }
+    }
+  }
+  for (const name of BLOCKED_GLOBALS) {
+    try {
+      Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    } catch {
+      // Already locked
+    }
+  }
+};
+
+self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  const { sources, testFiles, testTimeoutMs } = event.data;
+  lockDown();
+  for (const fileName of testFiles) {
+    await runTestFile(fileName, sources, {
+      testTimeoutMs,
+      onStart: name => post({ type: 'start', fileName, name: clip(name) }),
+      onResult: result => post({ type: 'result', result: { ...result, name: clip(result.name), ...(result.error ? { error: clip(result.error) } : {}) } })
+    });
+  }
+  post({ type: 'done' });
+};
@@ -0,0 +1,209 @@
+
+import { EngineRole, ModelPrice, SpendLimits, UsageRecord } from "../types";
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage, ProviderCapabilities, StreamDelta } from "./llmProvider";
+import { storage } from "./storageService";
+
+// Published list prices at the time of writing; editable in the System Engines settings
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { input: 2, cachedInput: 0.2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, cachedInput: 0.05, output: 3 },
+  'gemini-flash-lite-latest': { input: 0.1, cachedInput: 0.01, output: 0.4 }
+};
+
+// Identifies the project and pipeline run a call is billed to
+export interface UsageScope {
+  projectId: string;
+  runId: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  cost: number;
+  // Calls on models missing from the price table, counted at zero cost
+  unpricedCalls: number;
+}
+
+export type SpendStatus = 'ok' | 'soft' | 'hard';
+
+// A call refused because the project reached its hard spend limit
+export class SpendLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpendLimitError';
+  }
+}
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0, cost: 0, unpricedCalls: 0 });
+
+// Cached prompt tokens bill at the cached rate, the rest of the prompt at the input rate
+export const costOf = (record: UsageRecord, prices: Record<string, ModelPrice>) => {
+  const price = prices[record.model];
+  if (!price) return null;
+  const uncached = Math.max(0, record.promptTokens - record.cachedTokens);
+  return (uncached * price.input + record.cachedTokens * price.cachedInput + (record.outputTokens + record.thinkingTokens) * price.output) / 1_000_000;
+};
+
+export const totalUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>) =>
+  records.reduce((totals, r) => {
+    const cost = costOf(r, prices);
+    return {
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + r.promptTokens,
+      outputTokens: totals.outputTokens + r.outputTokens,
+      thinkingTokens: totals.thinkingTokens + r.thinkingTokens,
+      cachedTokens: totals.cachedTokens + r.cachedTokens,
+      cost: totals.cost + (cost ?? 0),
+      unpricedCalls: totals.unpricedCalls + (cost === null ? 1 : 0)
+    };
+  }, emptyTotals());
+
+// Totals per key, in order of first appearance
+export const usageBy = <K extends string>(records: UsageRecord[], keyOf: (r: UsageRecord) => K, prices: Record<string, ModelPrice>) => {
+  const groups = new Map<K, UsageRecord[]>();
+  records.forEach(r => groups.set(keyOf(r), [...(groups.get(keyOf(r)) || []), r]));
+  return Array.from(groups, ([key, group]) => ({ key, records: group, totals: totalUsage(group, prices) }));
+};
+
+export const spendStatus = (spent: number, limits: SpendLimits): SpendStatus => {
+  if (limits.hard > 0 && spent >= limits.hard) return 'hard';
+  if (limits.soft > 0 && spent >= limits.soft) return 'soft';
+  return 'ok';
+};
+
+export const formatCost = (usd: number) => usd === 0 ? '$0.00' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (count: number) => count >= 1_000_000 ? `${(count / 1_000_000).toFixed(2)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+export const describeUsage = (totals: UsageTotals) =>
+  `${totals.calls} call(s), ${formatTokens(totals.promptTokens)} prompt / ${formatTokens(totals.outputTokens)} output / ${formatTokens(totals.thinkingTokens)} thinking tokens, ${formatCost(totals.cost)}${totals.unpricedCalls ? ` (${totals.unpricedCalls} unpriced)` : ''}`;
+
+// Holds every recorded call and persists each one as it lands
+export class UsageStore {
+  private records: UsageRecord[] = [];
+  private listeners = new Set<(records: UsageRecord[]) => void>();
+  // Runs already warned about the soft limit
+  private warnedRuns = new Set<string>();
+  // Deleted projects; a run still settling must not bring their records back
+  private removedProjects = new Set<string>();
+
+  get all() {
+    return this.records;
+  }
+
+  forProject(projectId: string) {
+    return this.records.filter(r => r.projectId === projectId);
+  }
+
+  forRun(runId: string) {
+    return this.records.filter(r => r.runId === runId);
+  }
+
+  // Notified with all records whenever one is added; returns the unsubscribe function
+  subscribe(listener: (records: UsageRecord[]) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  load(records: UsageRecord[]) {
+    this.records = records;
+    this.notify();
+  }
+
+  // Storage drops a deleted project's records along with the project; this drops the in-memory copies
+  removeProject(projectId: string) {
+    this.removedProjects.add(projectId);
+    this.records = this.records.filter(r => r.projectId !== projectId);
+    this.notify();
+  }
+
+  record(record: UsageRecord) {
+    if (this.removedProjects.has(record.projectId)) return;
+    this.records = [...this.records, record];
+    this.notify();
+    storage.saveUsageRecord(record).catch(e => console.warn('Failed to persist usage', e));
+  }
+
+  // True the first time a run crosses the soft limit
+  shouldWarn(runId: string) {
+    if (this.warnedRuns.has(runId)) return false;
+    this.warnedRuns.add(runId);
+    return true;
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.records));
+  }
+}
+
+export const usageStore = new UsageStore();
+
+export interface MeterOptions {
+  scope: UsageScope;
+  role: EngineRole;
+  prices: Record<string, ModelPrice>;
+  limits: SpendLimits;
+  onSoftLimit?: (spent: number) => void;
+}
+
+// Checks the project's spend before each call and records the usage each call reports, including calls that fail
+// after part of the answer was billed; sits inside RetryingProvider so every attempt is metered on its own
+export class MeteredProvider implements LLMProvider {
+  readonly label: string;
+  readonly capabilities: ProviderCapabilities;
+
+  constructor(private readonly inner: LLMProvider, private readonly store: UsageStore, private readonly options: MeterOptions) {
+    this.label = inner.label;
+    this.capabilities = inner.capabilities;
+  }
+
+  private checkLimits() {
+    const { scope, prices, limits, onSoftLimit } = this.options;
+    const spent = totalUsage(this.store.forProject(scope.projectId), prices).cost;
+    const status = spendStatus(spent, limits);
+    if (status === 'hard') {
+      throw new SpendLimitError(`Project spend ${formatCost(spent)} reached its hard limit of ${formatCost(limits.hard)}; raise the limit to continue.`);
+    }
+    if (status === 'soft' && this.store.shouldWarn(scope.runId)) onSoftLimit?.(spent);
+  }
+
+  private save(request: LLMRequest, usage: LLMUsage | undefined) {
+    if (!usage) return;
+    this.store.record({
+      id: Math.random().toString(36).slice(2),
+      projectId: this.options.scope.projectId,
+      runId: this.options.scope.runId,
+      role: this.options.role,
+      operation: request.operation || 'call',
+      model: request.model,
+      provider: this.label,
+      ...usage,
+      timestamp: Date.now()
+    });
+  }
+
+  private async metered(request: LLMRequest, call: (request: LLMRequest) => Promise<LLMResponse>) {
+    this.checkLimits();
+    // Last usage reported before the call settled; all there is when it errors, times out or is cancelled
+    let reported: LLMUsage | undefined;
+    try {
+      const response = await call({ ...request, onUsage: usage => { reported = usage; request.onUsage?.(usage); } });
+      this.save(request, response.usage || reported);
+      return response;
+    } catch (error) {
+      this.save(request, reported);
+      throw error;
+    }
+  }
+
+  generate(request: LLMRequest): Promise<LLMResponse> {
+    return this.metered(request, r => this.inner.generate(r));
+  }
+
+  stream(request: LLMRequest, onChunk?: (delta: StreamDelta) => void): Promise<LLMResponse> {
+    return this.metered(request, r => this.inner.stream(r, onChunk));
+  }
+}
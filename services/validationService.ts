@@ -0,0 +1,82 @@
+
+import { IssueSeverity, ValidationIssue, ValidationVerdict, VerdictStatus } from "../types";
+
+const STATUSES: VerdictStatus[] = ['pass', 'warn', 'fail'];
+const SEVERITIES: IssueSeverity[] = ['info', 'warning', 'error'];
+
+// JSON Schema handed to the Validator as its response schema
+export const VERDICT_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: STATUSES, description: 'fail if any error-severity issue would break the build or behaviour, warn for non-blocking concerns, pass otherwise' },
+    summary: { type: 'string', description: 'One or two sentence overall assessment' },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: SEVERITIES },
+          fileName: { type: 'string', description: 'File the issue is in, exactly as given in the artifact header' },
+          startLine: { type: 'integer', description: '1-based line in the proposed file content' },
+          endLine: { type: 'integer' },
+          message: { type: 'string' },
+          suggestedFix: { type: 'string', description: 'Concrete replacement code or instruction' }
+        },
+        required: ['severity', 'fileName', 'message']
+      }
+    }
+  },
+  required: ['status', 'summary', 'issues']
+};
+
+// Coerces a model reply into a verdict; anything unreadable becomes a warn so a human still reviews it
+export const parseVerdict = (text: string): ValidationVerdict => {
+  let data: any;
+  try {
+    data = JSON.parse(text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, ''));
+  } catch {
+    return { status: 'warn', summary: text.trim() || 'Validator returned an empty report.', issues: [] };
+  }
+
+  const issues: ValidationIssue[] = (Array.isArray(data?.issues) ? data.issues : [])
+    .filter((i: any) => i && typeof i.message === 'string')
+    .map((i: any) => {
+      const startLine = Number.isInteger(i.startLine) && i.startLine > 0 ? i.startLine : undefined;
+      const endLine = Number.isInteger(i.endLine) && startLine && i.endLine >= startLine ? i.endLine : startLine;
+      return {
+        severity: SEVERITIES.includes(i.severity) ? i.severity : 'warning',
+        fileName: String(i.fileName ?? ''),
+        ...(startLine ? { startLine, endLine } : {}),
+        message: i.message,
+        ...(typeof i.suggestedFix === 'string' && i.suggestedFix ? { suggestedFix: i.suggestedFix } : {})
+      };
+    });
+
+  // Never let the model report a pass while listing errors
+  let status: VerdictStatus = STATUSES.includes(data?.status) ? data.status : 'warn';
+  if (status !== 'fail' && issues.some(i => i.severity === 'error')) status = 'fail';
+
+  return { status, summary: String(data?.summary ?? ''), issues };
+};
+
+export const unavailableVerdict = (reason: string): ValidationVerdict => ({
+  status: 'warn',
+  summary: `${reason} Manual review highly recommended.`,
+  issues: [],
+  unavailable: true
+});
+
+// Committing without a verdict, over a failing one, or over one the Validator never produced takes an explicit override
+export const verdictNeedsOverride = (verdict: ValidationVerdict | null | undefined) =>
+  !verdict || verdict.status === 'fail' || !!verdict.unavailable;
+
+// The model sometimes prefixes paths with ./ even though the artifact headers do not
+export const isSameFile = (issueFile: string, fileName: string) => issueFile.replace(/^\.\//, '') === fileName;
+
+export const issuesForFile = (verdict: ValidationVerdict | null, fileName: string) =>
+  verdict?.issues.filter(i => isSameFile(i.fileName, fileName)) || [];
+
+export const describeVerdict = (verdict: ValidationVerdict) => {
+  const errors = verdict.issues.filter(i => i.severity === 'error').length;
+  return `Verdict: ${verdict.status.toUpperCase()} — ${verdict.issues.length} issue(s)${errors ? `, ${errors} error(s)` : ''}`;
+};
@@ -0,0 +1,411 @@
+
+import { ChatMessage, DocumentKind, FileChangeAction, FileRevision, LocalDocument, Project, ProjectFile, ProjectThread, ResearchEntry, SystemConfig } from "../types";
+import { normalizeProjectPaths, SCHEMA_VERSION, storage } from "./storageService";
+import { languageFromFileName, parseChangeset } from "./changesetService";
+import { DELEGATE_TOOL, parseTaskPlan } from "./pipelineService";
+import { parseVerdict } from "./validationService";
+import { createZip, readZip } from "./zipService";
+import { normalizePath, pathProblem, tryNormalizePath } from "./pathService";
+
+export const WORKSPACE_FORMAT = 'trinity-workspace';
+export const WORKSPACE_VERSION = 1;
+
+// Inside a zip export the manifest holds everything but file contents, which sit under files/ as a plain source tree
+const MANIFEST_NAME = 'trinity-workspace.json';
+const FILES_DIR = 'files/';
+
+// Folders that are regenerated by tooling and would swamp the Conductor's context
+const IGNORED_DIRS = new Set(['node_modules', '.git', '.svn', '.hg', 'dist', 'build', 'out', 'coverage', '.next', '.nuxt', '.cache', '.turbo', '.venv', '__pycache__', '.idea', '.vscode']);
+const IGNORED_FILES = new Set(['.DS_Store', 'Thumbs.db']);
+const MAX_FILE_BYTES = 512 * 1024;
+const MAX_FILES = 2000;
+
+// Storage schema of the first release that could export workspaces; anything older was never written by Trinity
+const OLDEST_BUNDLE_SCHEMA = 5;
+
+// BUNDLE_MIGRATIONS[n] upgrades a bundle written with schema n - 1 to n; schema versions that only added stores need none
+const BUNDLE_MIGRATIONS: Record<number, (bundle: WorkspaceBundle) => WorkspaceBundle> = {
+  6: bundle => ({ ...bundle, project: normalizeProjectPaths(bundle.project) })
+};
+
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  // Storage schema the thread and library records were written with
+  schemaVersion: number;
+  exportedAt: number;
+  project: Project;
+  thread: ProjectThread | null;
+  research: ResearchEntry[];
+  documents: LocalDocument[];
+  // Untrusted once imported; applied through mergeImportedConfig
+  config: Partial<SystemConfig> | null;
+}
+
+// A file picked from disk; data is null when it was too large to be worth reading
+export interface SourceEntry {
+  path: string;
+  data: Uint8Array | null;
+}
+
+export interface WorkspaceImport {
+  bundle: WorkspaceBundle;
+  // Paths left out as unsafe, binary, oversized, ignored or over the file limit
+  skipped: string[];
+}
+
+// API keys stay on the machine that entered them
+export const shareableConfig = (config: SystemConfig): SystemConfig => ({
+  ...config,
+  localEndpoint: { ...config.localEndpoint, apiKey: '' }
+});
+
+export const exportWorkspace = async (project: Project, config: SystemConfig): Promise<WorkspaceBundle> => {
+  const [thread, research, documents] = await Promise.all([
+    storage.loadThread(project.id),
+    storage.loadResearch(project.id),
+    storage.loadDocuments(project.id)
+  ]);
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    project,
+    thread,
+    research,
+    documents,
+    config: shareableConfig(config)
+  };
+};
+
+export const bundleToJson = (bundle: WorkspaceBundle) => JSON.stringify(bundle, null, 2);
+
+export const bundleToZip = (bundle: WorkspaceBundle) => {
+  const encoder = new TextEncoder();
+  const manifest = { ...bundle, project: { ...bundle.project, files: bundle.project.files.map(f => ({ ...f, content: '' })) } };
+  return createZip([
+    { path: MANIFEST_NAME, data: encoder.encode(bundleToJson(manifest)) },
+    ...bundle.project.files.map(f => ({ path: `${FILES_DIR}${f.name}`, data: encoder.encode(f.content) }))
+  ], new Date(bundle.exportedAt));
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isTimestamp = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const FILE_ACTIONS: FileChangeAction[] = ['create', 'modify', 'rename', 'delete'];
+const DOCUMENT_KINDS: DocumentKind[] = ['markdown', 'html', 'text', 'json'];
+const MESSAGE_ROLES: ChatMessage['role'][] = ['user', 'assistant', 'system'];
+
+const malformed = (what: string, idx: number) => new Error(`Workspace bundle has a malformed ${what} (#${idx + 1})`);
+
+// Every bundled file name must be a safe workspace path, and no two may name the same file once normalized
+const checkedFileNames = (files: ProjectFile[]) => {
+  const seen = new Set<string>();
+  return files.map(file => {
+    if (!isString(file?.name)) throw new Error('Workspace bundle has a file without a name');
+    if (!isString(file.content)) throw new Error(`Workspace bundle has no text content for ${file.name}`);
+    const problem = pathProblem(file.name);
+    if (problem) throw new Error(`Workspace bundle has an unsafe file name: ${problem}`);
+    const name = normalizePath(file.name);
+    if (seen.has(name)) throw new Error(`Workspace bundle lists ${name} more than once`);
+    seen.add(name);
+    return { name, content: file.content, language: isString(file.language) ? file.language : languageFromFileName(name, file.content) };
+  });
+};
+
+// Verdicts go through the same parser as the Validator's answers; unreviewed ones stay marked so they still need the override
+const checkedVerdict = (verdict: any) => verdict && typeof verdict === 'object'
+  ? { ...parseVerdict(JSON.stringify(verdict)), ...(verdict.unavailable === true ? { unavailable: true } : {}) }
+  : undefined;
+
+// Record shapes are checked like file names: a record missing what storage and the views rely on rejects the bundle
+const checkedRevisions = (revisions: unknown): FileRevision[] | undefined => {
+  if (revisions === undefined) return undefined;
+  if (!Array.isArray(revisions)) throw new Error('Workspace bundle has a malformed revision history');
+  return revisions.map((r: any, idx) => {
+    const isContent = (value: unknown) => value === null || isString(value);
+    if (!r || !isString(r.id) || !isString(r.approvalId) || !FILE_ACTIONS.includes(r.action) || !isString(r.fileName)
+      || !isContent(r.before) || !isContent(r.after) || !isTimestamp(r.timestamp)) throw malformed('revision', idx);
+    const verdict = checkedVerdict(r.verdict);
+    return {
+      id: r.id,
+      approvalId: r.approvalId,
+      action: r.action,
+      fileName: r.fileName,
+      ...(isString(r.previousFileName) ? { previousFileName: r.previousFileName } : {}),
+      before: r.before,
+      after: r.after,
+      timestamp: r.timestamp,
+      description: isString(r.description) ? r.description : '',
+      author: r.author === 'user' ? 'user' : 'agent',
+      ...(isString(r.sourceMessageId) ? { sourceMessageId: r.sourceMessageId } : {}),
+      ...(verdict ? { verdict } : {}),
+      ...(r.verdictOverridden === true ? { verdictOverridden: true } : {}),
+      ...(isString(r.revertOf) ? { revertOf: r.revertOf } : {})
+    };
+  });
+};
+
+// Re-parsed like a Coder hand-off; a changeset with no usable change is dropped
+const checkedChangeset = (changeset: any, files: ProjectFile[]) => {
+  const parsed = changeset && typeof changeset === 'object' ? parseChangeset({ ...changeset, action: 'propose_changeset' }, files) : null;
+  return parsed && isString(changeset.sourceMessageId) ? { ...parsed, sourceMessageId: changeset.sourceMessageId } : parsed;
+};
+
+const checkedMessage = (m: any, idx: number, files: ProjectFile[]): ChatMessage => {
+  if (!m || !isString(m.id) || !MESSAGE_ROLES.includes(m.role) || !isString(m.content)) throw malformed('chat message', idx);
+  const pendingChange = checkedChangeset(m.pendingChange, files);
+  const taskPlan = m.taskPlan ? parseTaskPlan({ action: DELEGATE_TOOL.name, plan: m.taskPlan }) : null;
+  return {
+    id: m.id,
+    role: m.role,
+    content: m.content,
+    ...(pendingChange ? { pendingChange } : {}),
+    ...(isString(m.thoughts) ? { thoughts: m.thoughts } : {}),
+    ...(taskPlan ? { taskPlan } : {}),
+    ...(isString(m.proposalWarning) ? { proposalWarning: m.proposalWarning } : {}),
+    ...(Array.isArray(m.researchQueries) ? { researchQueries: m.researchQueries.filter(isString) } : {}),
+    ...(m.researchMode === 'force' || m.researchMode === 'suppress' ? { researchMode: m.researchMode } : {}),
+    ...(Array.isArray(m.contextFiles) ? {
+      contextFiles: m.contextFiles
+        .filter((f: any) => f && isString(f.name) && isTimestamp(f.tokens))
+        .map((f: any) => ({ ...f, truncated: f.truncated === true }))
+    } : {})
+  };
+};
+
+// The pending proposal is kept, but its verdict and check results are not: it arrives unreviewed and needs the override to commit
+const checkedThread = (thread: any, files: ProjectFile[]): ProjectThread | null => {
+  if (!thread) return null;
+  if (typeof thread !== 'object' || !Array.isArray(thread.messages)) throw new Error('Workspace bundle has a malformed chat thread');
+  const summary = thread.historySummary;
+  return {
+    projectId: '',
+    messages: thread.messages.map((m: any, idx: number) => checkedMessage(m, idx, files)),
+    pendingProposal: checkedChangeset(thread.pendingProposal, files),
+    validation: null,
+    typecheck: null,
+    tests: null,
+    repairAttempts: [],
+    historySummary: summary && isString(summary.text) && isString(summary.throughMessageId) ? { text: summary.text, throughMessageId: summary.throughMessageId } : null,
+    updatedAt: isTimestamp(thread.updatedAt) ? thread.updatedAt : Date.now()
+  };
+};
+
+const checkedResearch = (research: unknown[]): ResearchEntry[] => research.map((e: any, idx) => {
+  if (!e || !isString(e.query) || !isString(e.findings)) throw malformed('research entry', idx);
+  return {
+    id: isString(e.id) ? e.id : '',
+    projectId: '',
+    query: e.query,
+    findings: e.findings,
+    sources: Array.isArray(e.sources)
+      ? e.sources.filter((s: any) => s && isString(s.title) && isString(s.uri)).map((s: any) => ({ title: s.title, uri: s.uri }))
+      : [],
+    tags: Array.isArray(e.tags) ? e.tags.filter(isString) : [],
+    pinned: e.pinned === true,
+    createdAt: isTimestamp(e.createdAt) ? e.createdAt : Date.now()
+  };
+});
+
+const checkedDocuments = (documents: unknown[]): LocalDocument[] => documents.map((d: any, idx) => {
+  if (!d || !isString(d.fileName) || !isString(d.text) || !DOCUMENT_KINDS.includes(d.kind)) throw malformed('document', idx);
+  return {
+    id: isString(d.id) ? d.id : '',
+    projectId: '',
+    fileName: d.fileName,
+    title: isString(d.title) ? d.title : d.fileName,
+    kind: d.kind,
+    text: d.text,
+    importedAt: isTimestamp(d.importedAt) ? d.importedAt : Date.now()
+  };
+});
+
+export const parseWorkspaceBundle = (text: string): WorkspaceBundle => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Workspace bundle is not valid JSON');
+  }
+  if (data?.format !== WORKSPACE_FORMAT) throw new Error('Not a Trinity workspace bundle');
+  if (data.version > WORKSPACE_VERSION || data.schemaVersion > SCHEMA_VERSION) {
+    throw new Error('Workspace bundle was exported by a newer version of Trinity');
+  }
+  if (!(data.schemaVersion >= OLDEST_BUNDLE_SCHEMA)) throw new Error('Workspace bundle was written in an unsupported format');
+  if (!data.project || typeof data.project !== 'object' || !Array.isArray(data.project.files)) throw new Error('Workspace bundle has no project files');
+  let bundle: WorkspaceBundle = {
+    ...data,
+    thread: data.thread || null,
+    research: Array.isArray(data.research) ? data.research : [],
+    documents: Array.isArray(data.documents) ? data.documents : [],
+    config: data.config && typeof data.config === 'object' ? data.config : null
+  };
+  for (let version = bundle.schemaVersion + 1; version <= SCHEMA_VERSION; version++) {
+    bundle = BUNDLE_MIGRATIONS[version]?.(bundle) ?? bundle;
+  }
+  const files = checkedFileNames(bundle.project.files);
+  const revisions = checkedRevisions(bundle.project.revisions);
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: isTimestamp(bundle.exportedAt) ? bundle.exportedAt : Date.now(),
+    project: {
+      id: '',
+      name: isString(bundle.project.name) && bundle.project.name.trim() ? bundle.project.name : 'IMPORTED WORKSPACE',
+      files,
+      createdAt: isTimestamp(bundle.project.createdAt) ? bundle.project.createdAt : Date.now(),
+      ...(revisions ? { revisions } : {})
+    },
+    thread: checkedThread(bundle.thread, files),
+    research: checkedResearch(bundle.research),
+    documents: checkedDocuments(bundle.documents),
+    config: bundle.config
+  };
+};
+
+const isIgnoredPath = (path: string) => {
+  const segments = path.split('/');
+  return segments.slice(0, -1).some(s => IGNORED_DIRS.has(s)) || IGNORED_FILES.has(segments[segments.length - 1]);
+};
+
+// Archives of a folder and directory uploads both nest everything under one top-level name
+const stripCommonRoot = (paths: string[]) => {
+  const roots = new Set(paths.map(p => p.includes('/') ? p.split('/')[0] : ''));
+  if (roots.size !== 1 || roots.has('')) return { root: '', strip: (p: string) => p };
+  const [root] = Array.from(roots);
+  return { root, strip: (p: string) => p.slice(root.length + 1) };
+};
+
+// Text files become project files with detected languages; anything that is not valid UTF-8 is treated as binary
+export const sourceFilesFrom = (entries: SourceEntry[]) => {
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const skipped: string[] = [];
+  const files: ProjectFile[] = [];
+  const candidates = entries
+    .map(e => ({ ...e, path: e.path.replace(/\\/g, '/').replace(/^\.?\/+/, '') }))
+    .filter(e => {
+      if (!isIgnoredPath(e.path)) return true;
+      skipped.push(e.path);
+      return false;
+    });
+  const { root, strip } = stripCommonRoot(candidates.map(e => e.path));
+
+  for (const entry of candidates) {
+    const name = tryNormalizePath(strip(entry.path));
+    if (pathProblem(name) || files.some(f => f.name === name) || !entry.data || files.length >= MAX_FILES || entry.data.length > MAX_FILE_BYTES || entry.data.subarray(0, 8000).includes(0)) {
+      skipped.push(entry.path);
+      continue;
+    }
+    let content: string;
+    try {
+      content = decoder.decode(entry.data);
+    } catch {
+      skipped.push(entry.path);
+      continue;
+    }
+    files.push({ name, content, language: languageFromFileName(name, content) });
+  }
+  return { files: files.sort((a, b) => a.name.localeCompare(b.name)), skipped, root };
+};
+
+// Plain sources (a folder or a foreign zip) become a fresh workspace with no history
+export const importSourceEntries = (entries: SourceEntry[], fallbackName: string): WorkspaceImport => {
+  const { files, skipped, root } = sourceFilesFrom(entries);
+  if (files.length === 0) throw new Error('No text source files found to import');
+  return {
+    bundle: {
+      format: WORKSPACE_FORMAT,
+      version: WORKSPACE_VERSION,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: Date.now(),
+      project: { id: '', name: (root || fallbackName).toUpperCase(), files, createdAt: Date.now() },
+      thread: null,
+      research: [],
+      documents: [],
+      config: null
+    },
+    skipped
+  };
+};
+
+// A Trinity export restores the whole workspace; any other zip is imported as a source tree
+export const importZip = async (buffer: ArrayBuffer, archiveName: string): Promise<WorkspaceImport> => {
+  const entries = await readZip(buffer);
+  const manifestEntry = entries.find(e => e.path === MANIFEST_NAME);
+  if (!manifestEntry) return importSourceEntries(entries, archiveName.replace(/\.zip$/i, ''));
+
+  const bundle = parseWorkspaceBundle(new TextDecoder().decode(manifestEntry.data));
+  const contents = new Map<string, Uint8Array>();
+  entries.filter(e => e.path.startsWith(FILES_DIR)).forEach(e => {
+    const raw = e.path.slice(FILES_DIR.length);
+    const problem = pathProblem(raw);
+    if (problem) throw new Error(`Workspace archive has an unsafe file name: ${problem}`);
+    const name = normalizePath(raw);
+    if (contents.has(name)) throw new Error(`Workspace archive contains ${name} more than once`);
+    contents.set(name, e.data);
+  });
+  const missing = bundle.project.files.filter(f => !contents.has(f.name)).map(f => f.name);
+  if (missing.length > 0) throw new Error(`Workspace archive is missing ${missing.length} file(s): ${missing.slice(0, 3).join(', ')}`);
+  const decoder = new TextDecoder();
+  return {
+    bundle: { ...bundle, project: { ...bundle.project, files: bundle.project.files.map(f => ({ ...f, content: decoder.decode(contents.get(f.name)) })) } },
+    skipped: []
+  };
+};
+
+export const importJson = (text: string): WorkspaceImport => ({ bundle: parseWorkspaceBundle(text), skipped: [] });
+
+// Walks a File System Access directory handle without descending into ignored folders
+export const readDirectoryHandle = async (dir: FileSystemDirectoryHandle, prefix = ''): Promise<SourceEntry[]> => {
+  const entries: SourceEntry[] = [];
+  for await (const handle of (dir as any).values() as AsyncIterable<FileSystemHandle>) {
+    const path = `${prefix}${handle.name}`;
+    if (handle.kind === 'directory') {
+      if (!IGNORED_DIRS.has(handle.name)) entries.push(...await readDirectoryHandle(handle as FileSystemDirectoryHandle, `${path}/`));
+    } else if (!IGNORED_FILES.has(handle.name)) {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      entries.push({ path, data: file.size > MAX_FILE_BYTES ? null : new Uint8Array(await file.arrayBuffer()) });
+    }
+  }
+  return entries;
+};
+
+// Fallback for browsers without showDirectoryPicker: an <input webkitdirectory> upload
+export const readFileList = async (list: FileList): Promise<SourceEntry[]> => {
+  const files = Array.from(list).filter(f => !isIgnoredPath(f.webkitRelativePath || f.name));
+  return Promise.all(files.map(async file => ({
+    path: file.webkitRelativePath || file.name,
+    data: file.size > MAX_FILE_BYTES ? null : new Uint8Array(await file.arrayBuffer())
+  })));
+};
+
+// Imported records get fresh ids so a workspace can be imported next to the one it was exported from
+export const restoreWorkspace = async (bundle: WorkspaceBundle): Promise<Project> => {
+  const newId = () => Math.random().toString(36).substr(2, 9);
+  const project: Project = { ...bundle.project, id: newId(), archived: false, createdAt: Date.now() };
+  const thread: ProjectThread | null = bundle.thread ? {
+    ...bundle.thread,
+    projectId: project.id,
+    messages: bundle.thread.messages.map(m => m.isStreaming ? { ...m, isStreaming: false } : m),
+    updatedAt: Date.now()
+  } : null;
+  const research = bundle.research.map(entry => ({ ...entry, id: newId(), projectId: project.id }));
+  const documents = bundle.documents.map(doc => ({ ...doc, id: newId(), projectId: project.id }));
+  await storage.importWorkspace(project, thread, research, documents);
+  return project;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Safe for file names on every platform
+export const exportFileName = (project: Project, extension: string) =>
+  `${project.name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'workspace'}-${new Date().toISOString().slice(0, 10)}.${extension}`;
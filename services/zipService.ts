@@ -0,0 +1,182 @@
+
+// Minimal ZIP reader/writer on top of the browser's CompressionStream; no ZIP64, encryption or multi-disk archives
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// General purpose flag bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+// Ceiling on everything an archive may expand to, so a small zip bomb cannot exhaust memory
+export const MAX_UNZIPPED_BYTES = 256 * 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pipeThrough = async (data: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(transform)).arrayBuffer());
+
+// Null as soon as the output passes the limit; reading stops there instead of inflating the rest
+const inflateAtMost = async (data: Uint8Array, limit: number) => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+  const output = new Uint8Array(size);
+  chunks.reduce((offset, chunk) => (output.set(chunk, offset), offset + chunk.length), 0);
+  return output;
+};
+
+// MS-DOS timestamp packed into the two 16-bit fields every header carries
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const deflated = await pipeThrough(entry.data, new CompressionStream('deflate-raw'));
+    // Tiny or already-compressed files can grow when deflated
+    const useDeflate = deflated.length < entry.data.length;
+    const body = useDeflate ? deflated : entry.data;
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, useDeflate ? METHOD_DEFLATE : METHOD_STORED, true);
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, body);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, FLAG_UTF8, true);
+    header.setUint16(10, useDeflate ? METHOD_DEFLATE : METHOD_STORED, true);
+    header.setUint16(12, stamp.time, true);
+    header.setUint16(14, stamp.date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, body.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + body.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+// Directory entries are skipped; every file comes back with its full archive path
+export const readZip = async (buffer: ArrayBuffer, maxBytes = MAX_UNZIPPED_BYTES): Promise<ZipEntry[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KiB
+  let endAt = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endAt = i;
+      break;
+    }
+  }
+  if (endAt < 0) throw new ZipError('Not a zip archive (no end of central directory record)');
+
+  const count = view.getUint16(endAt + 10, true);
+  let cursor = view.getUint32(endAt + 16, true);
+  if (count === 0xffff || cursor === 0xffffffff) throw new ZipError('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  const tooLarge = () => new ZipError(`Archive expands to more than ${Math.round(maxBytes / (1024 * 1024))} MB`);
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(cursor, true) !== CENTRAL_HEADER) throw new ZipError(`Corrupt central directory at entry ${i + 1}`);
+    const flags = view.getUint16(cursor + 8, true);
+    const method = view.getUint16(cursor + 10, true);
+    const crc = view.getUint32(cursor + 16, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const declaredSize = view.getUint32(cursor + 24, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const path = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & 0x1) throw new ZipError(`${path} is encrypted`);
+
+    // Declared sizes catch honest archives early; the bounded inflate catches ones that lie about them
+    if (total + declaredSize > maxBytes) throw tooLarge();
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    let data: Uint8Array | null;
+    if (method === METHOD_STORED) data = raw.slice();
+    else if (method === METHOD_DEFLATE) data = await inflateAtMost(raw, maxBytes - total);
+    else throw new ZipError(`${path} uses unsupported compression method ${method}`);
+    if (!data || total + data.length > maxBytes) throw tooLarge();
+    total += data.length;
+
+    if (crc32(data) !== crc) throw new ZipError(`${path} failed its checksum`);
+    entries.push({ path, data });
+  }
+  return entries;
+};
@@ -12,6 +12,97 @@ export interface Project {
   name: string;
   files: ProjectFile[];
   createdAt: number;
+  archived?: boolean;
+  revisions?: FileRevision[];
+}
+
+// One file touched by one integration; every revision written by the same approval shares an approvalId
+export interface FileRevision {
+  id: string;
+  approvalId: string;
+  action: FileChangeAction;
+  fileName: string;
+  previousFileName?: string;
+  // null when the file did not exist before / after the change
+  before: string | null;
+  after: string | null;
+  timestamp: number;
+  description: string;
+  author: 'agent' | 'user';
+  sourceMessageId?: string;
+  verdict?: ValidationVerdict;
+  // The approval went ahead despite a failing verdict
+  verdictOverridden?: boolean;
+  revertOf?: string;
+}
+
+export type VerdictStatus = 'pass' | 'warn' | 'fail';
+export type IssueSeverity = 'info' | 'warning' | 'error';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  fileName: string;
+  // 1-based lines in the proposed content of fileName
+  startLine?: number;
+  endLine?: number;
+  message: string;
+  suggestedFix?: string;
+}
+
+export interface ValidationVerdict {
+  status: VerdictStatus;
+  summary: string;
+  issues: ValidationIssue[];
+  // The Validator failed or timed out; the summary explains why and the proposal was never actually reviewed
+  unavailable?: boolean;
+}
+
+export interface CompilerDiagnostic {
+  fileName: string;
+  // 1-based position in the proposed content of fileName
+  line: number;
+  column: number;
+  code: number;
+  severity: IssueSeverity;
+  message: string;
+}
+
+// clean and errors come from a real compile; skipped means no TypeScript in the workspace
+export type TypecheckStatus = 'clean' | 'errors' | 'skipped' | 'unavailable';
+
+export interface TypecheckReport {
+  status: TypecheckStatus;
+  diagnostics: CompilerDiagnostic[];
+  // Package imports the workspace has no declarations for; they are typed as any rather than reported
+  unresolvedModules: string[];
+  checkedFiles: number;
+  durationMs: number;
+  // Why the check was skipped or could not run
+  note?: string;
+}
+
+export type TestStatus = 'pass' | 'fail' | 'skip';
+
+export interface TestCaseResult {
+  fileName: string;
+  // Enclosing describe blocks and the test, joined with " › "
+  name: string;
+  status: TestStatus;
+  durationMs: number;
+  error?: string;
+  // Console output captured while the test ran
+  logs?: string[];
+}
+
+export interface TestRunReport {
+  scope: 'workspace' | 'proposal';
+  // error means the sandbox could not run at all; a run cut short by its limits still reports what finished
+  status: 'pass' | 'fail' | 'error';
+  testFiles: string[];
+  results: TestCaseResult[];
+  startedAt: number;
+  durationMs: number;
+  error?: string;
 }
 
 export interface ActivityLog {
@@ -22,17 +113,172 @@ export interface ActivityLog {
   type: 'info' | 'success' | 'warning' | 'error';
 }
 
+// Per-message override of the Conductor's own decision to research
+export type ResearchMode = 'auto' | 'force' | 'suppress';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
-  pendingChange?: CodeProposal;
+  pendingChange?: CodeChangeset;
+  // Thought summaries surfaced by thinking models, kept apart from the answer
+  thoughts?: string;
+  isStreaming?: boolean;
+  taskPlan?: TaskPlan;
+  // Shown when an agent attempted a hand-off that could not be parsed
+  proposalWarning?: string;
+  // Queries the Research Lead ran for this reply
+  researchQueries?: string[];
+  // Override the user chose when sending
+  researchMode?: Exclude<ResearchMode, 'auto'>;
+  // Workspace files whose contents were sent with the request that produced this reply
+  contextFiles?: ContextFileRef[];
 }
 
-export interface CodeProposal {
+export interface ContextFileRef {
+  name: string;
+  tokens: number;
+  truncated: boolean;
+  reason: 'mentioned' | 'modified' | 'import' | 'workspace';
+}
+
+export type FileChangeAction = 'create' | 'modify' | 'rename' | 'delete';
+
+export interface FileChange {
+  action: FileChangeAction;
   fileName: string;
-  content: string;
+  // Target path for 'rename'
+  newFileName?: string;
+  // Full file content for 'create' and 'modify'; optional for 'rename' to rewrite while moving
+  content?: string;
+}
+
+// Conductor hand-off to the Coder: what to build, file by file, and how the Validator should judge it
+export interface CoderTask {
+  action: FileChangeAction;
+  fileName: string;
+  newFileName?: string;
+  instructions: string;
+}
+
+export interface TaskPlan {
+  objective: string;
+  tasks: CoderTask[];
+  acceptanceCriteria: string[];
+}
+
+export interface CodeChangeset {
   description: string;
+  changes: FileChange[];
+  // Assistant message that proposed the set
+  sourceMessageId?: string;
+}
+
+// One Coder pass and the Validator's verdict on it; repairs append further attempts
+export interface RepairAttempt {
+  iteration: number;
+  changeset: CodeChangeset;
+  verdict: ValidationVerdict;
+  typecheck?: TypecheckReport;
+  tests?: TestRunReport;
+}
+
+export interface ResearchSource {
+  title: string;
+  uri: string;
+}
+
+export type DocumentKind = 'markdown' | 'html' | 'text' | 'json';
+
+// Reference material imported into a project for offline grounding; text is already extracted from HTML/JSON
+export interface LocalDocument {
+  id: string;
+  projectId: string;
+  fileName: string;
+  title: string;
+  kind: DocumentKind;
+  text: string;
+  importedAt: number;
+}
+
+// One Research Lead run, kept in the project's research library
+export interface ResearchEntry {
+  id: string;
+  projectId: string;
+  query: string;
+  findings: string;
+  sources: ResearchSource[];
+  tags: string[];
+  // Pinned entries are sent to the Conductor as grounding on every request
+  pinned: boolean;
+  createdAt: number;
+}
+
+// Rolling summary of turns compacted out of the Conductor history
+export interface HistorySummary {
+  text: string;
+  throughMessageId: string;
+}
+
+export interface ProjectThread {
+  projectId: string;
+  messages: ChatMessage[];
+  pendingProposal: CodeChangeset | null;
+  validation: ValidationVerdict | null;
+  typecheck?: TypecheckReport | null;
+  tests?: TestRunReport | null;
+  // Every attempt behind the pending proposal, oldest first
+  repairAttempts?: RepairAttempt[];
+  historySummary?: HistorySummary | null;
+  updatedAt: number;
+}
+
+// Agent roles that run on a configurable model engine
+export type EngineRole = 'conductor' | 'research' | 'coder' | 'validator';
+
+export type ProviderKind = 'gemini' | 'openai-compatible';
+
+// live calls the configured engines; record also captures every exchange; replay serves the cassette only
+export type CassetteMode = 'live' | 'record' | 'replay';
+
+export type ResearchGrounding = 'web' | 'local' | 'both';
+
+export interface LocalEndpointConfig {
+  // Base URL of the Chat Completions API, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  apiKey?: string;
+}
+
+// USD per million tokens; thinking tokens bill at the output rate
+export interface ModelPrice {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+// Per-project spend in USD; 0 disables a limit
+export interface SpendLimits {
+  // Warns once per run when crossed
+  soft: number;
+  // Blocks further agent calls once reached
+  hard: number;
+}
+
+// Token counts of one agent call; promptTokens includes cachedTokens, outputTokens excludes thinkingTokens
+export interface UsageRecord {
+  id: string;
+  projectId: string;
+  // One send of a chat message and every call it triggered
+  runId: string;
+  role: EngineRole;
+  operation: string;
+  model: string;
+  provider: string;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  timestamp: number;
 }
 
 export interface SystemConfig {
@@ -40,5 +286,21 @@ export interface SystemConfig {
   researchModel: string;
   coderModel: string;
   validatorModel: string;
-  searchEngineId?: string;
+  // Where the Research Lead grounds its findings: web search, the project's imported documents, or both
+  researchGrounding: ResearchGrounding;
+  // Max estimated tokens of prior conversation sent to the Conductor, keyed by model id
+  historyTokenBudgets: Record<string, number>;
+  // Feed failing verdicts back to the Coder for revised proposals
+  autoRepair: boolean;
+  maxRepairIterations: number;
+  engineProviders: Record<EngineRole, ProviderKind>;
+  localEndpoint: LocalEndpointConfig;
+  cassetteMode: CassetteMode;
+  // Seconds each agent role may spend on one call, retries included
+  agentTimeouts: Record<EngineRole, number>;
+  // Extra attempts after rate limits and transient server errors
+  maxRetries: number;
+  // Keyed by model id; models without an entry are reported as unpriced
+  modelPrices: Record<string, ModelPrice>;
+  spendLimits: SpendLimits;
 }